@@ -0,0 +1,199 @@
+import {
+    downloadMediaMessage,
+    getContentType,
+    WASocket,
+    proto,
+    AnyMessageContent,
+    MiscMessageGenerationOptions,
+    WAMessage
+} from '@whiskeysockets/baileys';
+import type { Logger } from 'pino';
+import { setStickerMetadata } from '../../sticker-exif.js';
+import type { IncomingMessage, MediaKind, OutgoingMedia, SendOptions, Transport } from '../../transport.js';
+
+/**
+ * Live connection state, updated by the entry point as the socket reconnects
+ */
+export interface BaileysConnection {
+    sock?: WASocket;
+    isConnected: boolean;
+    logger: Logger;
+}
+
+/**
+ * Pull the text or caption out of the common message types
+ */
+function getMessageText(content: proto.IMessage): string {
+    return content.conversation ||
+        content.extendedTextMessage?.text ||
+        content.imageMessage?.caption ||
+        content.videoMessage?.caption ||
+        content.documentMessage?.caption ||
+        '';
+}
+
+function getMediaKind(content: proto.IMessage): MediaKind | undefined {
+    switch (getContentType(content)) {
+        case 'imageMessage': return 'image';
+        case 'videoMessage': return content.videoMessage?.gifPlayback ? 'gif' : 'video';
+        case 'audioMessage': return 'audio';
+        case 'stickerMessage': return 'sticker';
+        case 'documentMessage': return 'document';
+        default: return undefined;
+    }
+}
+
+function getMediaMessage(content: proto.IMessage) {
+    return content.imageMessage ||
+        content.videoMessage ||
+        content.audioMessage ||
+        content.stickerMessage ||
+        content.documentMessage;
+}
+
+function getContextInfo(content: proto.IMessage): proto.IContextInfo | null | undefined {
+    return content.extendedTextMessage?.contextInfo ||
+        content.imageMessage?.contextInfo ||
+        content.videoMessage?.contextInfo ||
+        content.stickerMessage?.contextInfo ||
+        content.documentMessage?.contextInfo;
+}
+
+/**
+ * Wrap a Baileys message for the bot core
+ */
+export function toIncomingMessage(chatId: string, message: WAMessage): IncomingMessage {
+    const content = message.message || {};
+    return {
+        chatId,
+        senderId: message.key.participant || chatId,
+        body: getMessageText(content),
+        mediaKind: getMediaKind(content),
+        hasQuoted: !!getContextInfo(content)?.quotedMessage,
+        raw: message
+    };
+}
+
+function toMediaSource(data: Buffer | string) {
+    return typeof data === 'string' ? { url: data } : data;
+}
+
+/**
+ * Transport adapter for Baileys
+ */
+export function createBaileysTransport(connection: BaileysConnection): Transport {
+    // Wait for connection with timeout
+    async function waitForConnection(timeoutMs: number = 10000): Promise<boolean> {
+        const startTime = Date.now();
+        while (!connection.isConnected && Date.now() - startTime < timeoutMs) {
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+        return connection.isConnected;
+    }
+
+    // Send message with retry logic
+    async function sendMessage(chatId: string, content: AnyMessageContent, options: MiscMessageGenerationOptions = {}, retries: number = 3): Promise<void> {
+        let lastError: any;
+        for (let i = 0; i < retries; i++) {
+            if (!connection.isConnected) {
+                console.log(`Not connected, waiting... (attempt ${i + 1}/${retries})`);
+                const connected = await waitForConnection(5000);
+                if (!connected) {
+                    console.log('Still not connected, retrying...');
+                    continue;
+                }
+            }
+
+            try {
+                await connection.sock!.sendMessage(chatId, content, options);
+                return;
+            } catch (error: any) {
+                lastError = error;
+                console.error(`Send failed (attempt ${i + 1}/${retries}):`, error.message);
+                if (i < retries - 1) {
+                    await new Promise(resolve => setTimeout(resolve, 2000));
+                }
+            }
+        }
+        console.error('Failed to send message after all retries');
+        throw lastError || new Error('Not connected to WhatsApp');
+    }
+
+    function quoteOptions(options?: SendOptions): MiscMessageGenerationOptions {
+        const quoted = options?.quoted?.raw as WAMessage | undefined;
+        return quoted ? { quoted } : {};
+    }
+
+    const transport: Transport = {
+        name: 'baileys',
+
+        async sendText(chatId, text, options) {
+            await sendMessage(chatId, { text }, quoteOptions(options));
+        },
+
+        async sendMedia(chatId, media: OutgoingMedia, options) {
+            const source = toMediaSource(media.data);
+            let content: AnyMessageContent;
+            if (media.mimetype.startsWith('image/')) {
+                content = { image: source, caption: media.caption, mimetype: media.mimetype };
+            } else if (media.mimetype.startsWith('video/')) {
+                content = { video: source, caption: media.caption, mimetype: media.mimetype };
+            } else if (media.mimetype.startsWith('audio/')) {
+                content = { audio: source, mimetype: media.mimetype, ptt: false };
+            } else {
+                return transport.sendDocument(chatId, media, options);
+            }
+            await sendMessage(chatId, content, quoteOptions(options));
+        },
+
+        async sendSticker(chatId, webp, metadata) {
+            // Baileys has no sticker metadata option, so pack/author go into the WebP's EXIF
+            await sendMessage(chatId, { sticker: metadata ? setStickerMetadata(webp, metadata) : webp });
+        },
+
+        async sendDocument(chatId, media, options) {
+            await sendMessage(chatId, {
+                document: toMediaSource(media.data),
+                mimetype: media.mimetype,
+                fileName: media.fileName,
+                caption: media.caption
+            }, quoteOptions(options));
+        },
+
+        async downloadMedia(message) {
+            const raw = message.raw as WAMessage;
+            const buffer = await downloadMediaMessage(
+                raw,
+                'buffer',
+                {},
+                {
+                    logger: connection.logger,
+                    reuploadRequest: connection.sock!.updateMediaMessage
+                }
+            );
+            const content = raw.message || {};
+            return {
+                data: buffer as Buffer,
+                mimetype: getMediaMessage(content)?.mimetype || 'application/octet-stream',
+                fileName: content.documentMessage?.fileName || undefined
+            };
+        },
+
+        async getQuotedMessage(message) {
+            const raw = message.raw as WAMessage;
+            const contextInfo = getContextInfo(raw.message || {});
+            if (!contextInfo?.quotedMessage) return null;
+            return toIncomingMessage(message.chatId, {
+                key: {
+                    remoteJid: message.chatId,
+                    id: contextInfo.stanzaId,
+                    participant: contextInfo.participant,
+                    fromMe: false
+                },
+                message: contextInfo.quotedMessage
+            });
+        }
+    };
+
+    return transport;
+}
@@ -1,41 +1,125 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
 import { tmpdir } from 'os';
+import { isRembgServerReady, removeWithServer } from './rembg-server.js';
+import { ffmpeg, ffprobeDimensions, isToolAvailable, rembgImage } from './tool-runner.js';
 
-const execPromise = promisify(exec);
+const NOT_INSTALLED = 'rembg is not installed. Please install it: `pip install rembg[cli]`';
+
+/** rembg models that can be picked with model= */
+export const REMBG_MODELS = [
+    'u2net', 'u2netp', 'u2net_human_seg', 'silueta', 'isnet-general-use', 'isnet-anime',
+    'birefnet-general', 'birefnet-general-lite', 'birefnet-portrait',
+];
+
+export interface BackgroundRemovalOptions {
+    /** rembg model; rembg's default (u2net) when unset */
+    model?: string;
+    /** Alpha matting, slower but cleaner around hair and soft edges */
+    matting?: boolean;
+    /** Fill the removed background with this colour (ffmpeg colour: name or 0xRRGGBB) */
+    color?: string;
+    /** Put this image behind the cut-out, scaled to cover it */
+    backgroundPath?: string;
+    /** Keep the original background, blurred */
+    blur?: boolean;
+}
 
 export interface BackgroundRemovalResult {
     success: boolean;
     filePath?: string;
     error?: string;
+    /** What was applied, for describing the result */
+    options?: BackgroundRemovalOptions;
+}
+
+function rembgArgs(options: BackgroundRemovalOptions): string[] {
+    return [
+        ...(options.model ? ['-m', options.model] : []),
+        ...(options.matting ? ['-a'] : []),
+    ];
 }
 
 /**
- * Remove background from an image using rembg
+ * Put something behind the transparent cut-out: a colour, another image or the
+ * blurred original. The cut-out keeps the original's size.
+ */
+async function composite(originalPath: string, cutoutPath: string, outputPath: string, options: BackgroundRemovalOptions): Promise<void> {
+    const { width, height } = await ffprobeDimensions(cutoutPath);
+
+    let inputs: string[];
+    let background: string;
+    if (options.backgroundPath) {
+        inputs = ['-i', options.backgroundPath];
+        background = `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+    } else if (options.blur) {
+        inputs = ['-i', originalPath];
+        background = 'gblur=sigma=20';
+    } else {
+        inputs = ['-f', 'lavfi', '-i', `color=c=${options.color}:s=${width}x${height}`];
+        background = 'null';
+    }
+
+    await ffmpeg([
+        '-i', cutoutPath, ...inputs,
+        '-filter_complex', `[1:v]${background}[bg];[bg][0:v]overlay=format=auto,format=rgb24`,
+        '-frames:v', '1', outputPath
+    ]);
+}
+
+/**
+ * Apply any replacement background to a fresh cut-out. The cut-out is replaced by the result.
+ */
+async function fillBackground(originalPath: string, cutoutPath: string, options: BackgroundRemovalOptions): Promise<BackgroundRemovalResult> {
+    if (!options.color && !options.backgroundPath && !options.blur) {
+        return { success: true, filePath: cutoutPath, options };
+    }
+
+    const compositePath = path.join(tmpdir(), `newbg_${Date.now()}.png`);
+    try {
+        await composite(originalPath, cutoutPath, compositePath, options);
+    } finally {
+        await cleanupFile(cutoutPath);
+    }
+    return { success: true, filePath: compositePath, options };
+}
+
+/**
+ * Remove background from an image using rembg, then optionally fill it in again
  * Requires: pip install rembg[cli]
  */
-export async function removeBackground(inputPath: string): Promise<BackgroundRemovalResult> {
+export async function removeBackground(inputPath: string, options: BackgroundRemovalOptions = {}): Promise<BackgroundRemovalResult> {
     const outputPath = path.join(tmpdir(), `nobg_${Date.now()}.png`);
     
     try {
-        // Check if rembg is installed
-        try {
-            await execPromise('rembg --version', { timeout: 5000 });
-        } catch {
-            return { 
-                success: false, 
-                error: 'rembg is not installed. Please install it: `pip install rembg[cli]`' 
-            };
+        // Known missing since the startup probe
+        if (!isToolAvailable('rembg')) {
+            return { success: false, error: NOT_INSTALLED };
         }
         
-        console.log('Removing background from image...');
+        console.log(`Removing background from image${options.model ? ` with ${options.model}` : ''}...`);
+        
+        // 2 minute timeout for large images, more with matting
+        const timeoutMs = options.matting ? 240000 : 120000;
+        
+        // The long-running server has the model loaded already; the CLI loads it every time
+        let removed = false;
+        if (isRembgServerReady()) {
+            const started = Date.now();
+            try {
+                await removeWithServer(inputPath, outputPath, { ...options, timeoutMs });
+                console.log(`Background removed by rembg server in ${Date.now() - started}ms`);
+                removed = true;
+            } catch (serverError: any) {
+                console.error(`rembg server failed after ${Date.now() - started}ms, using the CLI:`, serverError.message);
+            }
+        }
         
         // Run rembg
-        await execPromise(`rembg i "${inputPath}" "${outputPath}"`, { 
-            timeout: 120000 // 2 minute timeout for large images
-        });
+        if (!removed) {
+            const { durationMs } = await rembgImage(inputPath, outputPath, rembgArgs(options), { timeoutMs });
+            console.log(`Background removed by rembg CLI in ${durationMs}ms`);
+        }
         
         // Verify output exists
         try {
@@ -44,28 +128,31 @@ export async function removeBackground(inputPath: string): Promise<BackgroundRem
             return { success: false, error: 'Background removal completed but output not found' };
         }
         
-        console.log('Background removed successfully');
-        
-        return {
-            success: true,
-            filePath: outputPath
-        };
+        return await fillBackground(inputPath, outputPath, options);
         
     } catch (error: any) {
-        console.error('Background removal error:', error);
+        console.error('Background removal error:', error.message);
         
-        if (error.message?.includes('CUDA') || error.message?.includes('GPU')) {
+        if (error.missing) {
+            return { success: false, error: error.tool === 'rembg' ? NOT_INSTALLED : error.message };
+        }
+
+        if (/CUDA|GPU/.test(error.stderr || error.message || '')) {
             // Try with CPU fallback
             try {
-                await execPromise(`rembg i --force-cpu "${inputPath}" "${outputPath}"`, { 
-                    timeout: 180000 
+                await rembgImage(inputPath, outputPath, ['--force-cpu', ...rembgArgs(options)], { 
+                    timeoutMs: 180000 
                 });
-                return { success: true, filePath: outputPath };
+                return await fillBackground(inputPath, outputPath, options);
             } catch (cpuError: any) {
                 return { success: false, error: cpuError.message || 'Failed with CPU fallback' };
             }
         }
         
+        if (options.model && /model/i.test(error.stderr || '')) {
+            return { success: false, error: `rembg couldn't load the model "${options.model}".` };
+        }
+        
         return { success: false, error: error.message || 'Failed to remove background' };
     }
 }
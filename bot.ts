@@ -0,0 +1,50 @@
+import { config } from './config.js';
+import { dispatchCommand, formatHelp, parseCommand, registerCommand } from './command-registry.js';
+import type { MessageContext } from './command-registry.js';
+import { builtinCommands, messageHandlers } from './commands/index.js';
+import { notifyNewLinks } from './commands/watchlist.js';
+import { startFileServer } from './file-server.js';
+import { startRembgServer } from './rembg-server.js';
+import { probeTools } from './tool-runner.js';
+import type { IncomingMessage, Transport } from './transport.js';
+import { startWatchlist } from './watchlist.js';
+
+builtinCommands.forEach(registerCommand);
+
+/**
+ * Create the transport-agnostic message handler used by both entry points
+ */
+export function createBot(transport: Transport) {
+    startFileServer();
+    probeTools();
+    startRembgServer();
+    startWatchlist(notifyNewLinks(transport));
+
+    return async function handleMessage(msg: IncomingMessage) {
+        const ctx: MessageContext = {
+            transport,
+            msg,
+            chatId: msg.chatId,
+            prefix: config.prefix,
+            reply: (text) => transport.sendText(msg.chatId, text, { quoted: msg }),
+        };
+
+        const parsed = parseCommand(msg.body, config.prefix);
+        if (parsed?.command) {
+            await dispatchCommand(parsed.command, ctx, parsed.args);
+            return;
+        }
+
+        for (const handler of messageHandlers) {
+            if (await handler(ctx)) return;
+        }
+
+        // Without a prefix every plain text message is a candidate, so fall back to the menu.
+        // With one, only answer messages that actually used it.
+        if (config.prefix && parsed?.name) {
+            await ctx.reply(`❓ Unknown command "${parsed.name}". Type \`${config.prefix}help\` for the menu.`);
+        } else if (!config.prefix && !msg.mediaKind) {
+            await transport.sendText(msg.chatId, formatHelp(config.prefix));
+        }
+    };
+}
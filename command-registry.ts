@@ -0,0 +1,248 @@
+import { config } from './config.js';
+import { extractMediaUrl, PLATFORMS } from './media-downloader.js';
+import type { IncomingMessage, MediaKind, Transport } from './transport.js';
+
+export type CommandCategory = 'media' | 'stickers' | 'images' | 'movies' | 'general';
+
+/**
+ * Everything a handler needs to respond to one incoming message
+ */
+export interface MessageContext {
+    transport: Transport;
+    msg: IncomingMessage;
+    chatId: string;
+    prefix: string;
+    /** Reply to the incoming message (quoted where the transport supports it) */
+    reply(text: string): Promise<void>;
+}
+
+export interface CommandContext extends MessageContext {
+    command: Command;
+    /** Everything after the command word, original casing kept */
+    args: string;
+    /** The message carrying the media: the message itself or the one it replies to */
+    media?: IncomingMessage;
+}
+
+export interface Command {
+    name: string;
+    aliases?: string[];
+    /** Argument syntax shown in help, e.g. "<movie name>" */
+    usage?: string;
+    description: string;
+    category: CommandCategory;
+    /** Media kinds the command works on; missing media is reported before run() */
+    media?: MediaKind[];
+    /** Reject the command with its usage line when no arguments are given */
+    argsRequired?: boolean;
+    /** Only senders listed in BOT_ADMINS may run it; left out of the menu */
+    adminOnly?: boolean;
+    /** Its argument is a media link, so a link after it is for the command, not the downloader */
+    takesLinks?: boolean;
+    /**
+     * Without a prefix, whether the words after a command that takes neither media nor
+     * required arguments make it the command. Defaults to nothing, a number or one quoted
+     * argument, so chat such as "next please" isn't taken for `next`.
+     */
+    bareArgs?: (args: string) => boolean;
+    run(ctx: CommandContext): Promise<void>;
+}
+
+/**
+ * Non-command flows (menu selections, pasted links, auto-stickers).
+ * Returns true when the message was handled.
+ */
+export type MessageHandler = (ctx: MessageContext) => Promise<boolean>;
+
+const CATEGORIES: Record<CommandCategory, { title: string; tips: string[] }> = {
+    media: {
+        title: '📥 *Media Downloads*',
+        tips: [
+            `Send a link from ${PLATFORMS.map(p => p.name).join(', ')}`,
+            `Add "audio" or "mp3" for audio only (${PLATFORMS.filter(p => p.defaultFormat === 'audio').map(p => p.name).join(' and ')} links are audio already)`,
+            'Use "formats <link>" to pick the resolution or audio quality'
+        ]
+    },
+    stickers: {
+        title: '🎨 *Stickers*',
+        tips: [
+            'Send a GIF → auto-converts to sticker',
+            'Caption a video "sticker start=0:05 duration=4" for an animated one',
+            'Add crop, circle or rounded for the shape, pack="…" author="…" to name your pack',
+            'Add top="…" bottom="…" for meme captions'
+        ]
+    },
+    images: { title: '🖼️ *Image Tools*', tips: ['Chain img operations in one go, e.g. "img crop 1:1 resize 800 jpg"'] },
+    movies: { title: '🎬 *Movies*', tips: ['In an episode list, reply with a range like 3-6 or "all" to queue several'] },
+    general: { title: 'ℹ️ *General*', tips: [] },
+};
+
+const BARE_ARGS = /^(#?\d+|["“”][^"“”]*["“”])?$/;
+
+const commands: Command[] = [];
+const lookup = new Map<string, Command>();
+
+/**
+ * Add a command to the registry. Names and aliases must be unique.
+ */
+export function registerCommand(command: Command): void {
+    for (const name of [command.name, ...(command.aliases || [])]) {
+        const key = name.toLowerCase();
+        if (lookup.has(key)) {
+            throw new Error(`Command name "${name}" is already registered`);
+        }
+        lookup.set(key, command);
+    }
+    commands.push(command);
+}
+
+/**
+ * Take a command and its aliases out of the registry
+ */
+export function unregisterCommand(command: Command): void {
+    for (const name of [command.name, ...(command.aliases || [])]) {
+        if (lookup.get(name.toLowerCase()) === command) lookup.delete(name.toLowerCase());
+    }
+    const index = commands.indexOf(command);
+    if (index >= 0) commands.splice(index, 1);
+}
+
+export function findCommand(name: string): Command | undefined {
+    return lookup.get(name.toLowerCase());
+}
+
+export function listCommands(): Command[] {
+    return [...commands];
+}
+
+function isBareCommand(command: Command, args: string): boolean {
+    if (extractMediaUrl(args)) return !!command.takesLinks;
+    if (command.argsRequired || command.media) return true;
+    return command.bareArgs ? command.bareArgs(args) : BARE_ARGS.test(args);
+}
+
+/**
+ * Split a message into command word and arguments.
+ * Returns null when a prefix is configured and the message doesn't use it.
+ * Without a prefix, a message with a media link in it ("watch this <link>") is
+ * someone sharing the link, so no command is matched unless it takes links. Nor is
+ * one matched for a bare word followed by chat (see Command.bareArgs).
+ */
+export function parseCommand(text: string, prefix: string): { name: string; args: string; command?: Command } | null {
+    const trimmed = text.trim();
+    if (prefix && !trimmed.startsWith(prefix)) return null;
+
+    const rest = trimmed.slice(prefix.length).trimStart();
+    const name = rest.split(/\s+/)[0] || '';
+    const args = rest.slice(name.length).trim();
+    let command = name ? findCommand(name) : undefined;
+    if (command && !prefix && !isBareCommand(command, args)) command = undefined;
+    return { name, args, command };
+}
+
+/**
+ * Split command arguments into bare words and key=value options. Values can be
+ * quoted to include spaces, with straight or the curly quotes phones insert.
+ */
+export function parseArgs(args: string): { words: string[]; options: Record<string, string> } {
+    const words: string[] = [];
+    const options: Record<string, string> = {};
+    for (const match of args.matchAll(/(\w+)=(?:["“”]([^"“”]*)["“”]?|(\S*))|["“”]([^"“”]*)["“”]?|(\S+)/g)) {
+        if (match[1]) {
+            options[match[1].toLowerCase()] = (match[2] ?? match[3] ?? '').trim();
+        } else {
+            words.push(match[4] ?? match[5]!);
+        }
+    }
+    return { words, options };
+}
+
+function describeMedia(kinds: MediaKind[]): string {
+    return kinds.length > 1
+        ? `${kinds.slice(0, -1).join(', ')} or ${kinds[kinds.length - 1]}`
+        : kinds[0] || 'media';
+}
+
+function formatUsage(command: Command, prefix: string): string {
+    return `${prefix}${command.name}${command.usage ? ' ' + command.usage : ''}`;
+}
+
+/**
+ * Find the media a command should work on: the message itself or the one it quotes
+ */
+async function resolveMedia(ctx: MessageContext, kinds: MediaKind[]): Promise<IncomingMessage | undefined> {
+    if (ctx.msg.mediaKind && kinds.includes(ctx.msg.mediaKind)) return ctx.msg;
+    if (!ctx.msg.hasQuoted) return undefined;
+
+    const quoted = await ctx.transport.getQuotedMessage(ctx.msg);
+    if (quoted?.mediaKind && kinds.includes(quoted.mediaKind)) return quoted;
+    return undefined;
+}
+
+/**
+ * Is the sender one of the BOT_ADMINS numbers? Matched on the number part of the
+ * ID, so "2348012345678@c.us" and "2348012345678:3@s.whatsapp.net" both count.
+ */
+export function isAdmin(senderId: string): boolean {
+    const number = senderId.split('@')[0]!.split(':')[0]!.replace(/\D/g, '');
+    return config.admins.includes(number);
+}
+
+/**
+ * Validate permissions, arguments and media, then run the command
+ */
+export async function dispatchCommand(command: Command, ctx: MessageContext, args: string): Promise<void> {
+    if (command.adminOnly && !isAdmin(ctx.msg.senderId)) {
+        await ctx.reply(`⛔ *${command.name}* is for the bot admin only.`);
+        return;
+    }
+
+    if (command.argsRequired && !args) {
+        await ctx.reply(`Usage: ${formatUsage(command, ctx.prefix)}`);
+        return;
+    }
+
+    let media: IncomingMessage | undefined;
+    if (command.media) {
+        media = await resolveMedia(ctx, command.media);
+        if (!media) {
+            await ctx.reply(`❌ *${command.name}* needs media (${describeMedia(command.media)}).\nSend it with the caption \`${formatUsage(command, ctx.prefix)}\` or reply to one.`);
+            return;
+        }
+    }
+
+    await command.run({ ...ctx, command, args, media });
+}
+
+/**
+ * Build the main menu from the registered commands
+ */
+export function formatHelp(prefix: string): string {
+    let menu = '👋 *WhatsApp Bot Menu*';
+
+    for (const [category, { title, tips }] of Object.entries(CATEGORIES)) {
+        const entries = commands.filter(c => c.category === category && !c.adminOnly);
+        if (entries.length === 0 && tips.length === 0) continue;
+
+        menu += `\n\n${title}`;
+        tips.forEach(tip => menu += `\n• ${tip}`);
+        entries.forEach(c => menu += `\n• \`${formatUsage(c, prefix)}\` — ${c.description}`);
+    }
+
+    menu += `\n\nType \`${prefix}help <command>\` for details.`;
+    return menu;
+}
+
+/**
+ * Build the detail page for a single command
+ */
+export function formatCommandHelp(command: Command, prefix: string): string {
+    let page = `📖 *${command.name}*\n${command.description}\n\nUsage: \`${formatUsage(command, prefix)}\``;
+    if (command.aliases?.length) {
+        page += `\nAliases: ${command.aliases.map(a => `\`${prefix}${a}\``).join(', ')}`;
+    }
+    if (command.media) {
+        page += `\nNeeds: ${describeMedia(command.media)} (send with the command as caption, or reply to one)`;
+    }
+    return page;
+}
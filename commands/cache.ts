@@ -0,0 +1,39 @@
+import type { Command } from '../command-registry.js';
+import { config } from '../config.js';
+import { flushCache, getCacheStats } from '../scrape-cache.js';
+
+const KINDS = ['search', 'links'];
+
+export const cacheCommand: Command = {
+    name: 'cache',
+    usage: '[flush [search|links]]',
+    description: 'Show the scrape cache, or empty it',
+    category: 'general',
+    adminOnly: true,
+    bareArgs: (args) => /^(flush(\s+\w+)?)?$/i.test(args),
+    async run(ctx) {
+        const [action, kind] = ctx.args.toLowerCase().split(/\s+/);
+
+        if (action === 'flush') {
+            if (kind && !KINDS.includes(kind)) {
+                return ctx.reply(`Usage: ${ctx.prefix}cache flush [${KINDS.join('|')}]`);
+            }
+            const removed = await flushCache(kind ? `${kind}:` : '');
+            return ctx.reply(`🧹 Removed ${removed} cached ${kind || 'scrape'} entr${removed === 1 ? 'y' : 'ies'}.`);
+        }
+        if (action) {
+            return ctx.reply(`Usage: ${ctx.prefix}cache [flush [${KINDS.join('|')}]]`);
+        }
+
+        const stats = getCacheStats();
+        const lookups = stats.hits + stats.misses + stats.coalesced;
+        let text = '🗄️ *Scrape cache*\n\n';
+        KINDS.forEach(k => text += `• ${k}: ${stats.kinds[k] || 0} entries\n`);
+        text += `• Size: ${(stats.bytes / 1024).toFixed(1)}KB\n`;
+        text += `• TTL: search ${config.searchCacheMs / 60000} min, links ${config.linkCacheMs / 60000} min\n`;
+        text += `\nSince start: ${stats.hits} hits, ${stats.misses} fetches, ${stats.coalesced} joined in-flight`;
+        if (lookups > 0) text += ` (${Math.round((stats.hits + stats.coalesced) / lookups * 100)}% saved)`;
+        text += `\n\nType \`${ctx.prefix}cache flush [search|links]\` to empty it.`;
+        await ctx.reply(text);
+    },
+};
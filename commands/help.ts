@@ -0,0 +1,25 @@
+import { findCommand, formatCommandHelp, formatHelp } from '../command-registry.js';
+import type { Command } from '../command-registry.js';
+
+export const helpCommand: Command = {
+    name: 'help',
+    aliases: ['menu'],
+    usage: '[command]',
+    description: 'Show this menu, or details for one command',
+    category: 'general',
+    bareArgs: (args) => !args || !!findCommand(args),
+    async run(ctx) {
+        if (!ctx.args) {
+            await ctx.transport.sendText(ctx.chatId, formatHelp(ctx.prefix));
+            return;
+        }
+
+        const name = ctx.args.split(/\s+/)[0]!.replace(ctx.prefix, '');
+        const command = findCommand(name);
+        if (!command) {
+            await ctx.reply(`❌ Unknown command "${name}". Type \`${ctx.prefix}help\` for the full list.`);
+            return;
+        }
+        await ctx.transport.sendText(ctx.chatId, formatCommandHelp(command, ctx.prefix));
+    },
+};
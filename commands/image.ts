@@ -0,0 +1,63 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import type { Command } from '../command-registry.js';
+import { editImage, IMAGE_OPERATIONS, outputFormat, planImageEdit } from '../image-tools.js';
+import type { ImageFormat } from '../image-tools.js';
+
+const MIMETYPES: Record<ImageFormat, string> = {
+    jpg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+};
+
+const OPERATIONS_HELP = `Operations: ${IMAGE_OPERATIONS.map(op => op.usage).join(', ')}. Add doc to get a file.`;
+
+export const imgCommand: Command = {
+    name: 'img',
+    usage: '<resize 800|compress 70|jpg|png|webp|rotate 90|crop 1:1|gray|blur|upscale 2x> [doc]',
+    description: 'Edit an image; several operations can be chained, e.g. "crop 1:1 resize 512"',
+    category: 'images',
+    media: ['image'],
+    argsRequired: true,
+    async run(ctx) {
+        const { transport, chatId } = ctx;
+        const words = ctx.args.split(/\s+/).filter(Boolean).map(w => w.toLowerCase());
+        const asDocument = words.includes('doc');
+        const edit = planImageEdit(words.filter(w => w !== 'doc'));
+        if (typeof edit === 'string') {
+            await ctx.reply(`❓ ${edit}\n${OPERATIONS_HELP}`);
+            return;
+        }
+
+        const tempInput = path.join(tmpdir(), `img_input_${Date.now()}`);
+        let tempOutput = '';
+        try {
+            const media = await transport.downloadMedia(ctx.media!);
+            const format = outputFormat(edit, media.mimetype);
+            tempOutput = path.join(tmpdir(), `img_output_${Date.now()}.${format}`);
+            await fs.writeFile(tempInput, media.data);
+            const { width, height } = await editImage(tempInput, tempOutput, edit, format);
+            const data = await fs.readFile(tempOutput);
+
+            const file = {
+                data,
+                mimetype: MIMETYPES[format],
+                fileName: `image.${format}`,
+                caption: `✅ ${width}×${height} · ${Math.ceil(data.length / 1024)} KB`
+            };
+            // WhatsApp shows WebP photos as stickers, so those always go as a file
+            if (asDocument || format === 'webp') {
+                await transport.sendDocument(chatId, file);
+            } else {
+                await transport.sendMedia(chatId, file);
+            }
+        } catch (e: any) {
+            console.error('Image edit error:', e.message);
+            await ctx.reply(e.missing ? `❌ ${e.message}` : "❌ Couldn't edit this image.");
+        } finally {
+            await fs.unlink(tempInput).catch(() => {});
+            if (tempOutput) await fs.unlink(tempOutput).catch(() => {});
+        }
+    },
+};
@@ -0,0 +1,43 @@
+import type { Command, MessageHandler } from '../command-registry.js';
+import { cacheCommand } from './cache.js';
+import { helpCommand } from './help.js';
+import { imgCommand } from './image.js';
+import { formatSelectionHandler, formatsCommand, mediaLinkHandler } from './media-links.js';
+import { moreCommand, movieSelectionHandler, prevCommand, refineCommand, searchCommand } from './movies.js';
+import { cancelCommand, queueCommand } from './queue.js';
+import { removeBgCommand } from './removebg.js';
+import { followCommand, followingCommand, unfollowCommand } from './watchlist.js';
+import { autoStickerHandler, stickerCommand, textStickerCommand, toImageCommand } from './sticker.js';
+
+/**
+ * Built-in commands, in the order they appear in the help menu
+ */
+export const builtinCommands: Command[] = [
+    stickerCommand,
+    textStickerCommand,
+    toImageCommand,
+    removeBgCommand,
+    imgCommand,
+    searchCommand,
+    moreCommand,
+    prevCommand,
+    refineCommand,
+    followCommand,
+    unfollowCommand,
+    followingCommand,
+    formatsCommand,
+    queueCommand,
+    cancelCommand,
+    helpCommand,
+    cacheCommand,
+];
+
+/**
+ * Non-command flows, tried in order when a message isn't a command
+ */
+export const messageHandlers: MessageHandler[] = [
+    autoStickerHandler,
+    movieSelectionHandler,
+    formatSelectionHandler,
+    mediaLinkHandler,
+];
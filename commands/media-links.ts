@@ -0,0 +1,243 @@
+import fs from 'fs/promises';
+import { extractMediaUrl, downloadMedia, cleanupFile as cleanupMediaFile, DEFAULT_MAX_HEIGHT, fetchMediaFormats, fetchThumbnail, formatDuration, getPlatform, safeFileName } from '../media-downloader.js';
+import type { MediaFormatOption, MediaInfo, MediaPlatform, Platform } from '../media-downloader.js';
+import type { Command, MessageContext, MessageHandler } from '../command-registry.js';
+import { config } from '../config.js';
+import { deliverFile } from '../delivery.js';
+import { isFileServerEnabled } from '../file-server.js';
+import { enqueueJob } from '../job-queue.js';
+import type { Job } from '../job-queue.js';
+import { announceJob } from './queue.js';
+import { clearSession, getSession, saveSession } from '../session-store.js';
+import type { Session } from '../session-store.js';
+import { ytDlpError } from '../tool-runner.js';
+import { getUserPrefs, updateUserPrefs } from '../user-prefs.js';
+
+export interface FormatSession extends Session {
+    flow: 'media-formats';
+    state: 'FORMAT_SELECTION';
+    url: string;
+    platform: Platform;
+    title: string;
+    /** The menu as shown; numeric replies pick from it */
+    formats: MediaFormatOption[];
+}
+
+interface LinkDownload {
+    url: string;
+    platform: MediaPlatform;
+    audioOnly: boolean;
+    /** Exact yt-dlp format picked from the menu */
+    format?: string;
+    /** Bitrate of the picked audio format, kept when converting to mp3 */
+    audioBitrate?: number;
+    maxHeight?: number;
+    /** Shown in the queue, e.g. "YouTube 1080p" */
+    label: string;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Title, then a line of whatever details the site gave, then the link
+ */
+function describeMedia(info: MediaInfo, emoji: string): string {
+    const details = [
+        info.uploader && `👤 ${info.uploader}`,
+        info.duration && `⏱️ ${formatDuration(info.duration)}`,
+        info.uploadDate && `📅 ${new Date(info.uploadDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })}`,
+        info.viewCount !== undefined && `👁️ ${new Intl.NumberFormat('en', { notation: 'compact' }).format(info.viewCount)} views`,
+    ].filter(Boolean);
+    return [`${emoji} *${info.title}*`, details.join(' · '), info.url].filter(Boolean).join('\n');
+}
+
+/**
+ * Queue a yt-dlp download and send the file back when it's done
+ */
+function queueLinkDownload(ctx: MessageContext, download: LinkDownload): Job {
+    const { transport, chatId } = ctx;
+    const { emoji, name: platformName } = download.platform;
+
+    return enqueueJob(chatId, download.label, async (job) => {
+        await transport.sendText(chatId, `${emoji} Downloading from ${platformName}...${download.audioOnly ? ' (audio only)' : ''}\nThis may take a moment.`);
+
+        // With splitting or hosting on, big files are sent in parts or as a link instead of being refused
+        const maxSizeMB = config.splitPartSizeMb > 0 || isFileServerEnabled() ? Infinity : config.maxSendSizeMb;
+        const result = await downloadMedia(download.url, {
+            audioOnly: download.audioOnly,
+            format: download.format,
+            audioBitrate: download.audioBitrate,
+            maxHeight: download.maxHeight,
+            signal: job.signal,
+            maxSizeMB,
+            onInfo: async (info) => {
+                const thumbnail = config.mediaThumbnails ? await fetchThumbnail(info) : null;
+                // A preview that won't send isn't worth failing the download over
+                if (thumbnail) await transport.sendMedia(chatId, { ...thumbnail, caption: describeMedia(info, emoji) }).catch(e => console.error('Preview send failed:', e.message));
+            }
+        });
+
+        if (!result.success || !result.filePath) {
+            await transport.sendText(chatId, job.signal.aborted ? '🛑 Download cancelled.' : `❌ ${result.error || 'Failed to download'}`);
+            throw new Error(result.error || 'Failed to download');
+        }
+
+        job.status = 'uploading';
+        const mimetype = result.isAudio ? 'audio/mpeg' : 'video/mp4';
+        const fileName = `${safeFileName(result.title || 'download')}.${result.isAudio ? 'mp3' : 'mp4'}`;
+        try {
+            const sizeMB = (await fs.stat(result.filePath)).size / (1024 * 1024);
+
+            await transport.sendText(chatId, `✅ Downloaded: *${result.title}*\n📁 Size: ${sizeMB.toFixed(2)}MB\nSending now...`);
+
+            await deliverFile(transport, chatId, {
+                filePath: result.filePath,
+                fileName,
+                mimetype,
+                caption: result.info ? describeMedia(result.info, emoji) : `${emoji} ${result.title}`
+            }, job.signal);
+        } catch (sendError: any) {
+            console.error('Error sending media:', sendError);
+            if (!job.signal.aborted) {
+                await transport.sendText(chatId, `❌ Failed to send: ${sendError.message}`);
+            }
+            throw sendError;
+        } finally {
+            await cleanupMediaFile(result.filePath);
+        }
+    });
+}
+
+/**
+ * Download pasted links from any of the supported platforms and send the file back
+ */
+export const mediaLinkHandler: MessageHandler = async (ctx) => {
+    const { msg } = ctx;
+    const mediaMatch = extractMediaUrl(msg.body);
+    if (!mediaMatch) return false;
+
+    const platform = getPlatform(mediaMatch.platform);
+    if (!platform) return false;
+
+    const text = msg.body.toLowerCase();
+    const askedForAudio = text.includes('audio') || text.includes('mp3') || text.includes('music');
+    const audioOnly = platform.defaultFormat === 'audio' || (platform.audio && askedForAudio);
+
+    const job = queueLinkDownload(ctx, {
+        url: mediaMatch.url,
+        platform,
+        audioOnly,
+        maxHeight: getUserPrefs(msg.senderId).mediaQuality,
+        label: `${platform.name} ${audioOnly ? 'audio' : 'video'}`
+    });
+    await announceJob(ctx, job);
+    return true;
+};
+
+function formatLabel(option: MediaFormatOption): string {
+    const quality = option.kind === 'video'
+        ? `🎬 ${option.height}p`
+        : `🎵 Audio${option.abr ? ` ${option.abr} kbps` : ' only'}`;
+    return option.estimatedBytes ? `${quality} · ~${Math.max(1, Math.round(option.estimatedBytes / MB))}MB` : quality;
+}
+
+export const formatsCommand: Command = {
+    name: 'formats',
+    aliases: ['quality'],
+    usage: '<link> | reset',
+    description: 'Pick the resolution or audio quality to download a link in',
+    category: 'media',
+    argsRequired: true,
+    takesLinks: true,
+    async run(ctx) {
+        const { transport, chatId, msg } = ctx;
+        const userDefault = getUserPrefs(msg.senderId).mediaQuality;
+
+        if (['reset', 'default'].includes(ctx.args.trim().toLowerCase())) {
+            await updateUserPrefs(msg.senderId, { mediaQuality: undefined });
+            await ctx.reply(`✅ Links download at up to ${DEFAULT_MAX_HEIGHT}p again.`);
+            return;
+        }
+
+        const mediaMatch = extractMediaUrl(ctx.args);
+        const platform = mediaMatch && getPlatform(mediaMatch.platform);
+        if (!mediaMatch || !platform) {
+            await ctx.reply(`❓ Send \`${ctx.prefix}formats <link>\` with a link from a supported site. Type \`${ctx.prefix}help\` for the list.`);
+            return;
+        }
+
+        await transport.sendText(chatId, `${platform.emoji} Checking the formats on offer...`);
+        let found: Awaited<ReturnType<typeof fetchMediaFormats>>;
+        try {
+            found = await fetchMediaFormats(mediaMatch.url);
+        } catch (e: any) {
+            console.error('Format listing error:', e.message);
+            const reason = e.missing || e.timedOut ? e.message : ytDlpError(e);
+            await ctx.reply(`❌ ${reason ? `Couldn't read this link: ${reason}` : "Couldn't read this link."}`);
+            return;
+        }
+
+        const formats = found.formats.filter(f => f.kind === 'audio' ? platform.audio : platform.defaultFormat === 'video');
+        if (formats.length === 0) {
+            await ctx.reply('❌ No downloadable formats found for this link.');
+            return;
+        }
+
+        const session: FormatSession = {
+            flow: 'media-formats',
+            state: 'FORMAT_SELECTION',
+            url: mediaMatch.url,
+            platform: mediaMatch.platform,
+            title: found.info.title,
+            formats,
+            timestamp: Date.now()
+        };
+        await saveSession(chatId, session);
+
+        const duration = found.info.duration ? ` (${formatDuration(found.info.duration)})` : '';
+        let menu = `🎚️ *${found.info.title}*${duration}\n\n`;
+        formats.forEach((f, i) => menu += `${i + 1}. ${formatLabel(f)}\n`);
+        menu += `\nReply with a number to download it. Picking a resolution also makes it your default for links (now ${userDefault || DEFAULT_MAX_HEIGHT}p).`;
+        await transport.sendText(chatId, menu);
+    },
+};
+
+/**
+ * Numeric replies to the `formats` menu
+ */
+export const formatSelectionHandler: MessageHandler = async (ctx) => {
+    const { chatId, msg } = ctx;
+    const input = msg.body.trim();
+    if (!/^\d+$/.test(input)) return false;
+
+    const lookup = getSession<FormatSession>(chatId, 'media-formats');
+    if (lookup.status === 'missing') return false;
+    if (lookup.status === 'expired') {
+        await ctx.reply(`⌛ Your format menu expired. Send \`${ctx.prefix}formats <link>\` again.`);
+        return true;
+    }
+
+    const session = lookup.session;
+    const option = session.formats[parseInt(input) - 1];
+    const platform = getPlatform(session.platform);
+    if (!option || !platform) {
+        await ctx.reply(`Invalid selection. Reply with a number from 1 to ${session.formats.length}.`);
+        return true;
+    }
+
+    await clearSession(chatId);
+    if (option.height) {
+        await updateUserPrefs(msg.senderId, { mediaQuality: option.height });
+    }
+
+    const job = queueLinkDownload(ctx, {
+        url: session.url,
+        platform,
+        audioOnly: option.kind === 'audio',
+        format: option.selector,
+        audioBitrate: option.abr,
+        label: `${platform.name} ${option.kind === 'video' ? `${option.height}p` : 'audio'}`
+    });
+    await announceJob(ctx, job);
+    return true;
+};
@@ -0,0 +1,489 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { tmpdir } from 'os';
+import { config } from '../config.js';
+import { deliverFile } from '../delivery.js';
+import { downloadToFile, isLinkError, removePartialDownload } from '../http-downloader.js';
+import { getMovieLinks, getProvider, listProviders, mergeResults, parseProviderQuery, providerFor, searchMovies, titleMatches } from '../movie-providers.js';
+import type { MovieSearchResult, DownloadLink } from '../movie-providers.js';
+import type { Command, MessageContext, MessageHandler } from '../command-registry.js';
+import { expandSelection, formatLinkLabel, isSelection, listSeasons, parseLink, sortLinks } from '../episode-parser.js';
+import type { ParsedLink } from '../episode-parser.js';
+import { enqueueJob } from '../job-queue.js';
+import type { Job } from '../job-queue.js';
+import { announceJob } from './queue.js';
+import { clearSession, getSession, hasActiveSession, saveSession } from '../session-store.js';
+import type { Session } from '../session-store.js';
+import type { Transport } from '../transport.js';
+
+export interface MovieSession extends Session {
+    flow: 'movies';
+    state: 'SEARCH_RESULTS' | 'SEASON_SELECTION' | 'EPISODE_SELECTION' | 'DOWNLOAD_METHOD_SELECTION';
+    /** The page of results currently shown, which numeric replies pick from */
+    lastResults?: MovieSearchResult[];
+    /** Everything fetched for the search so far, across site pages */
+    allResults?: MovieSearchResult[];
+    query?: string;
+    /** Set when the search was limited to one provider (`search nkiri:...`) */
+    providerId?: string;
+    /** Word(s) from `refine` that results must contain */
+    filter?: string;
+    /** Where each page shown so far starts in the (filtered) results; the last one is showing */
+    pageStarts?: number[];
+    /** Site result pages fetched so far */
+    sitePages?: number;
+    /** Set once a site page came back with nothing new */
+    exhausted?: boolean;
+    /** Every link of the selected title, kept while the season picker is open */
+    allLinks?: ParsedLink[];
+    seasons?: number[];
+    /** The links in the episode menu currently shown */
+    lastLinks?: ParsedLink[];
+    selectedMovie?: MovieSearchResult;
+    selectedLinks?: DownloadLink[];
+}
+
+// Partial files currently being written, so two jobs never share one
+const activeTempFiles = new Set<string>();
+
+/**
+ * Pick the temp file for a link. The name is derived from the URL so a failed
+ * download of the same file can be resumed by the next attempt.
+ */
+function tempFileFor(url: string): string {
+    const hash = createHash('sha1').update(url).digest('hex').slice(0, 12);
+    const preferred = path.join(tmpdir(), `movie_${hash}.mp4`);
+    return activeTempFiles.has(preferred)
+        ? path.join(tmpdir(), `movie_${hash}_${Date.now()}.mp4`)
+        : preferred;
+}
+
+async function downloadAndSend(transport: Transport, job: Job, item: DownloadLink) {
+    const { chatId } = job;
+    const tempFile = tempFileFor(item.url);
+    activeTempFiles.add(tempFile);
+    let keepPartial = false;
+
+    try {
+        await transport.sendText(chatId, `🚀 Starting download: *${item.label}*\nPlease wait...`);
+
+        let lastLoggedProgress = -1;
+        const { resumedBytes } = await downloadToFile(item.url, tempFile, {
+            signal: job.signal,
+            retries: config.downloadRetries,
+            chunks: config.downloadChunks,
+            onProgress: (downloadedBytes, totalBytes) => {
+                if (totalBytes > 0) {
+                    const progress = Math.floor((downloadedBytes / totalBytes) * 100);
+                    if (progress % 10 === 0 && progress !== lastLoggedProgress) {
+                        console.log(`Download progress for ${item.label}: ${progress}% (${(downloadedBytes / 1024 / 1024).toFixed(2)}MB / ${(totalBytes / 1024 / 1024).toFixed(2)}MB)`);
+
+                        // Send update to user every 25%
+                        if (progress % 25 === 0 && progress > 0 && progress < 100) {
+                            transport.sendText(chatId, `⏳ Download progress: ${progress}%...`).catch(() => {});
+                        }
+
+                        lastLoggedProgress = progress;
+                    }
+                } else {
+                    // If no content-length, just log the MBs in terminal
+                    if (Math.floor(downloadedBytes / 1024 / 1024) % 10 === 0 && Math.floor(downloadedBytes / 1024 / 1024) !== lastLoggedProgress) {
+                        console.log(`Downloaded: ${(downloadedBytes / 1024 / 1024).toFixed(2)}MB`);
+                        lastLoggedProgress = Math.floor(downloadedBytes / 1024 / 1024);
+                    }
+                }
+            }
+        });
+
+        if (resumedBytes > 0) {
+            console.log(`Resumed ${item.label} from ${(resumedBytes / 1024 / 1024).toFixed(2)}MB`);
+        }
+        console.log(`Download complete: ${item.label}`);
+        job.status = 'uploading';
+        await transport.sendText(chatId, `✅ Download complete! Sending to you now...`);
+
+        // Extract filename from URL (last part after /)
+        let fileName: string = item.url.split('/').pop() || `${item.label}.mp4`;
+        // Remove query params
+        fileName = fileName.split('?')[0] || fileName;
+        // Ensure it has extension
+        if (!fileName.endsWith('.mp4') && !fileName.endsWith('.mkv')) {
+            fileName = `${fileName}.mp4`;
+        }
+
+        await deliverFile(transport, chatId, {
+            filePath: tempFile,
+            fileName,
+            mimetype: fileName.endsWith('.mkv') ? 'video/x-matroska' : 'video/mp4',
+            caption: `Here is your movie: ${item.label}`,
+            asDocument: true
+        }, job.signal);
+
+    } catch (error) {
+        if (job.signal.aborted) {
+            await transport.sendText(chatId, `🛑 Download of *${item.label}* cancelled.`);
+        } else if (job.status === 'downloading' && isLinkError(error)) {
+            console.error('Download Error:', error);
+            await transport.sendText(chatId, `❌ The download link has expired or the file is gone. Open the title again to get a fresh link.`);
+        } else if (job.status === 'downloading') {
+            // Keep what we have so choosing the same file again picks up where this stopped
+            keepPartial = true;
+            console.error('Download Error:', error);
+            await transport.sendText(chatId, `❌ Download failed after ${config.downloadRetries} retries; the connection kept dropping.\nChoose the same file again to resume from where it stopped.`);
+        } else {
+            console.error('Download Error:', error);
+            await transport.sendText(chatId, "❌ Failed to download or send the file. The file might be too large or the link expired.");
+        }
+        throw error;
+    } finally {
+        activeTempFiles.delete(tempFile);
+        if (!keepPartial) {
+            await removePartialDownload(tempFile);
+        }
+    }
+}
+
+const PAGE_SIZE = 10;
+// Site pages fetched per `more` or `refine` when a filter leaves too few results
+const MAX_FETCHES_PER_PAGE = 3;
+
+function filteredResults(session: MovieSession): MovieSearchResult[] {
+    const results = session.allResults || [];
+    return session.filter ? results.filter(r => titleMatches(r.title, session.filter!)) : results;
+}
+
+/**
+ * Fetch site pages until `wanted` filtered results are available or the site runs out
+ */
+async function fetchUntil(session: MovieSession, wanted: number): Promise<void> {
+    for (let fetches = 0; fetches < MAX_FETCHES_PER_PAGE; fetches++) {
+        if (session.exhausted || filteredResults(session).length >= wanted) return;
+
+        const page = (session.sitePages || 1) + 1;
+        const provider = session.providerId ? getProvider(session.providerId) : undefined;
+        const added = mergeResults(session.allResults!, await searchMovies(session.query!, provider, page));
+        session.sitePages = page;
+        if (added === 0) session.exhausted = true;
+    }
+}
+
+/**
+ * Show the current page of the stored results and make it the one numbers pick from
+ */
+async function showResults(ctx: MessageContext, session: MovieSession): Promise<void> {
+    const results = filteredResults(session);
+    const starts = session.pageStarts || [0];
+    const start = starts[starts.length - 1]!;
+    session.state = 'SEARCH_RESULTS';
+    session.lastResults = results.slice(start, start + PAGE_SIZE);
+    await saveSession(ctx.chatId, session);
+
+    const total = `${results.length}${session.exhausted ? '' : '+'}`;
+    let menu = `🍿 *Results${session.filter ? ` matching "${session.filter}"` : ''}* (${start + 1}–${start + session.lastResults.length} of ${total}):\n\n`;
+    // Only worth tagging results when they can come from more than one site
+    const showSource = listProviders().length > 1 && !session.providerId;
+    session.lastResults.forEach((r, i) => menu += `${i + 1}. ${r.title}${showSource ? ` [${providerFor(r).id}]` : ''}\n`);
+    menu += "\nReply with the *number* to see episodes/links.";
+
+    const hints = [];
+    if (!session.exhausted || results.length > start + session.lastResults.length) hints.push(`\`${ctx.prefix}more\` for more`);
+    if (starts.length > 1) hints.push(`\`${ctx.prefix}prev\` to go back`);
+    hints.push(`\`${ctx.prefix}refine <word>\` to filter`);
+    menu += `\nType ${hints.join(', ')}.`;
+    await ctx.transport.sendText(ctx.chatId, menu);
+}
+
+/**
+ * The chat's search, for the paging commands. Replies and returns undefined if there is none.
+ */
+async function searchSession(ctx: MessageContext): Promise<MovieSession | undefined> {
+    const lookup = getSession<MovieSession>(ctx.chatId, 'movies');
+    if (lookup.status === 'active' && lookup.session.allResults) return lookup.session;
+
+    await ctx.reply(lookup.status === 'expired'
+        ? `⌛ Your search expired. Type \`${ctx.prefix}search <movie name>\` to start again.`
+        : `Nothing to page through. Type \`${ctx.prefix}search <movie name>\` first.`);
+    return undefined;
+}
+
+export const searchCommand: Command = {
+    name: 'search',
+    usage: '[source:]<movie name>',
+    description: 'Search movie sites for movies and series',
+    category: 'movies',
+    argsRequired: true,
+    async run(ctx) {
+        const { provider, query } = parseProviderQuery(ctx.args);
+        if (!query) return ctx.reply(`Usage: ${ctx.prefix}search [source:]<movie name>`);
+
+        const providers = listProviders();
+        await ctx.reply(`🔍 Searching for "${query}" on ${provider ? provider.name : providers.length > 1 ? 'all sources' : providers[0]!.name}...`);
+        const results = await searchMovies(query, provider);
+
+        if (results.length === 0) return ctx.reply("❌ No results found.");
+
+        const session: MovieSession = {
+            flow: 'movies',
+            state: 'SEARCH_RESULTS',
+            allResults: results,
+            query,
+            providerId: provider?.id,
+            pageStarts: [0],
+            sitePages: 1,
+            timestamp: Date.now()
+        };
+        // The first page is whatever the site gave; `more` fetches the next one
+        await showResults(ctx, session);
+    },
+};
+
+export const moreCommand: Command = {
+    name: 'more',
+    aliases: ['next'],
+    description: 'Next page of search results',
+    category: 'movies',
+    async run(ctx) {
+        const session = await searchSession(ctx);
+        if (!session) return;
+
+        // Pages can be short when the site gives fewer results, so the next starts after the one shown
+        const starts = session.pageStarts || [0];
+        const next = starts[starts.length - 1]! + (session.lastResults?.length || 0);
+        await fetchUntil(session, next + 1);
+        if (filteredResults(session).length <= next) {
+            await saveSession(ctx.chatId, session);
+            return ctx.reply("That's all the results.");
+        }
+
+        session.pageStarts = [...starts, next];
+        await showResults(ctx, session);
+    },
+};
+
+export const prevCommand: Command = {
+    name: 'prev',
+    aliases: ['previous'],
+    description: 'Previous page of search results',
+    category: 'movies',
+    async run(ctx) {
+        const session = await searchSession(ctx);
+        if (!session) return;
+        if (!session.pageStarts || session.pageStarts.length < 2) return ctx.reply("You're already on the first page.");
+
+        session.pageStarts = session.pageStarts.slice(0, -1);
+        await showResults(ctx, session);
+    },
+};
+
+export const refineCommand: Command = {
+    name: 'refine',
+    usage: '<word>',
+    description: 'Only show search results containing a word (`refine clear` shows all again)',
+    category: 'movies',
+    argsRequired: true,
+    async run(ctx) {
+        const session = await searchSession(ctx);
+        if (!session) return;
+
+        const word = ctx.args.trim();
+        session.filter = ['clear', 'all', 'none'].includes(word.toLowerCase()) ? undefined : word;
+        session.pageStarts = [0];
+        await fetchUntil(session, 1);
+
+        if (filteredResults(session).length === 0) {
+            const filter = session.filter;
+            session.filter = undefined;
+            await saveSession(ctx.chatId, session);
+            return ctx.reply(`❌ No results contain "${filter}".`);
+        }
+        await showResults(ctx, session);
+    },
+};
+
+/**
+ * Menu of a season's (or a film's) files, sorted by real episode number
+ */
+function episodeMenu(title: string, links: ParsedLink[], heading = `📥 *Results for ${title}:*`): string {
+    let menu = `${heading}\n\n`;
+    links.forEach((l, i) => menu += `${i + 1}. ${l.unresolved ? '⚠️ ' : ''}${formatLinkLabel(title, l)}${l.unresolved ? ' (link only)' : ''}\n`);
+    if (links.some(l => l.unresolved)) {
+        menu += "\n⚠️ = the bot couldn't get the file from that host; you'll get the page link to open in a browser.";
+    }
+    menu += links.length > 1
+        ? "\nReply with the *number* to *DOWNLOAD & SEND* the file, a range like *3-6*, or *all*."
+        : "\nReply with the *number* to *DOWNLOAD & SEND* the file.";
+    return menu;
+}
+
+function seasonMenu(title: string, seasons: number[], links: ParsedLink[]): string {
+    let menu = `📺 *${title}* has ${seasons.length} seasons:\n\n`;
+    seasons.forEach((season, i) => {
+        const count = links.filter(l => (l.season ?? 0) === season).length;
+        menu += `${i + 1}. ${season > 0 ? `Season ${season}` : 'Other files'} (${count} file${count === 1 ? '' : 's'})\n`;
+    });
+    menu += "\nReply with the *number* of the season.";
+    return menu;
+}
+
+async function showEpisodes(ctx: MessageContext, session: MovieSession, links: ParsedLink[]) {
+    session.state = 'EPISODE_SELECTION';
+    session.lastLinks = links;
+    await saveSession(ctx.chatId, session);
+    await ctx.transport.sendText(ctx.chatId, episodeMenu(session.selectedMovie!.title, links));
+}
+
+/**
+ * Put links in front of a chat as an episode menu it can answer with numbers,
+ * without a search first (used for watchlist notifications). If the chat has another
+ * menu open, the links are only listed so its next reply still goes to that menu.
+ */
+export async function offerLinks(transport: Transport, chatId: string, movie: MovieSearchResult, links: DownloadLink[], heading: string): Promise<void> {
+    const parsed = sortLinks(links.map(parseLink));
+    if (hasActiveSession(chatId)) {
+        let text = `${heading}\n\n`;
+        parsed.forEach(l => text += `• ${formatLinkLabel(movie.title, l)}\n`);
+        text += `\nYou have another menu open, so reply to that one first. Type \`${config.prefix}following\` to see your series.`;
+        await transport.sendText(chatId, text);
+        return;
+    }
+
+    const session: MovieSession = {
+        flow: 'movies',
+        state: 'EPISODE_SELECTION',
+        selectedMovie: movie,
+        lastLinks: parsed,
+        timestamp: Date.now()
+    };
+    await saveSession(chatId, session);
+    await transport.sendText(chatId, episodeMenu(movie.title, parsed, heading));
+}
+
+/**
+ * Replies that walk through the search → season → episode → download method menus.
+ * The episode menu also takes ranges ("3-6", "1,4") and "all" to queue several files.
+ */
+export const movieSelectionHandler: MessageHandler = async (ctx) => {
+    const { transport, chatId } = ctx;
+    const input = ctx.msg.body.trim();
+    if (!isSelection(input)) return false;
+
+    const lookup = getSession<MovieSession>(chatId, 'movies');
+    if (lookup.status === 'missing') return false;
+    if (lookup.status === 'expired') {
+        await ctx.reply(`⌛ Your menu expired. Type \`${ctx.prefix}search <movie name>\` to start again.`);
+        return true;
+    }
+    const session = lookup.session;
+
+    // Ranges and "all" only apply to the episode list
+    const selection = /^\d+$/.test(input) ? parseInt(input) : NaN;
+    if (session.state !== 'EPISODE_SELECTION' && isNaN(selection)) {
+        await ctx.reply("Please reply with a single *number*.");
+        return true;
+    }
+
+    // Handle Movie Selection -> Show Seasons or Episodes
+    if (session.state === 'SEARCH_RESULTS') {
+        const movie = session.lastResults![selection - 1];
+        if (!movie) {
+            await ctx.reply("Invalid selection.");
+            return true;
+        }
+
+        await transport.sendText(chatId, `🎞️ Opening *${movie.title}*...`);
+
+        const links = sortLinks((await getMovieLinks(movie)).map(parseLink));
+        if (links.length === 0) {
+            await ctx.reply("❌ No download links found.");
+            return true;
+        }
+        session.selectedMovie = movie;
+
+        const seasons = listSeasons(links);
+        if (seasons.length > 1) {
+            session.state = 'SEASON_SELECTION';
+            session.allLinks = links;
+            session.seasons = seasons;
+            await saveSession(chatId, session);
+            await transport.sendText(chatId, seasonMenu(movie.title, seasons, links));
+            return true;
+        }
+
+        await showEpisodes(ctx, session, links);
+        return true;
+    }
+
+    // Handle Season Selection -> Show that season's episodes
+    if (session.state === 'SEASON_SELECTION') {
+        const season = session.seasons![selection - 1];
+        if (season === undefined) {
+            await ctx.reply("Invalid selection.");
+            return true;
+        }
+
+        await showEpisodes(ctx, session, session.allLinks!.filter(l => (l.season ?? 0) === season));
+        return true;
+    }
+
+    // Handle Episode Selection -> Ask for Method
+    if (session.state === 'EPISODE_SELECTION') {
+        const links = session.lastLinks!;
+        const indexes = expandSelection(input, links.length);
+        if (!indexes || indexes.length === 0) {
+            await ctx.reply(`Invalid selection. Reply with a number from 1 to ${links.length}, a range like *3-6*, or *all*.`);
+            return true;
+        }
+
+        const title = session.selectedMovie!.title;
+        const selected = indexes.map(i => ({ ...links[i]!, label: formatLinkLabel(title, links[i]!) }));
+        session.state = 'DOWNLOAD_METHOD_SELECTION';
+        session.selectedLinks = selected;
+        await saveSession(chatId, session);
+
+        const what = selected.length === 1 ? `"${selected[0]!.label}"` : `these ${selected.length} files`;
+        let choiceMenu = `❓ *How would you like to receive ${what}?*\n\n`;
+        choiceMenu += `1. *Get Direct Link${selected.length === 1 ? '' : 's'}* (Fastest, no waiting)\n`;
+        choiceMenu += config.splitPartSizeMb > 0
+            ? `2. *Send as File* (large files arrive in parts of up to ${config.splitPartSizeMb}MB)\n\n`
+            : "2. *Send as File* (⚠️ Risky & Not reliable)\n\n";
+        choiceMenu += "Reply with *1* or *2*.";
+
+        await transport.sendText(chatId, choiceMenu);
+        return true;
+    }
+
+    // Handle Download Method Selection
+    if (session.state === 'DOWNLOAD_METHOD_SELECTION') {
+        const links = session.selectedLinks!;
+
+        if (selection === 1) {
+            // Option 1: Just send the link(s)
+            await transport.sendText(chatId, links.length === 1
+                ? links[0]!.url
+                : links.map(l => `*${l.label}*\n${l.url}`).join('\n\n'));
+            await clearSession(chatId);
+        } else if (selection === 2) {
+            // Option 2: Download and send, one queued job per file
+            await clearSession(chatId);
+            const unresolved = links.filter(l => l.unresolved);
+            if (unresolved.length > 0) {
+                await transport.sendText(chatId, `⚠️ Can't download ${unresolved.length === 1 ? 'this one' : 'these'} myself, open in a browser instead:\n\n`
+                    + unresolved.map(l => `*${l.label}* (${l.unresolved})\n${l.url}`).join('\n\n'));
+            }
+
+            const jobs = links
+                .filter(l => !l.unresolved)
+                .map(link => enqueueJob(chatId, link.label, (job) => downloadAndSend(transport, job, link)));
+            if (jobs.length === 1) {
+                await announceJob(ctx, jobs[0]!);
+            } else if (jobs.length > 1) {
+                await ctx.reply(`📋 Queued ${jobs.length} downloads (#${jobs[0]!.id}–#${jobs[jobs.length - 1]!.id}). They are sent one after another.\nType \`${ctx.prefix}queue\` to check on them or \`${ctx.prefix}cancel\` to stop them.`);
+            }
+        } else {
+            await ctx.reply("Please reply with *1* for the link or *2* for the file.");
+        }
+        return true;
+    }
+
+    return false;
+};
@@ -0,0 +1,76 @@
+import { cancelChatJobs, cancelJob, getJob, getJobs, getQueuePosition, isActive, isFinished } from '../job-queue.js';
+import type { Job } from '../job-queue.js';
+import type { Command, MessageContext } from '../command-registry.js';
+
+const STATUS_LABELS: Record<Job['status'], string> = {
+    queued: '⏳ Queued',
+    downloading: '⬇️ Downloading',
+    uploading: '📤 Sending',
+    done: '✅ Done',
+    failed: '❌ Failed',
+    cancelled: '🛑 Cancelled',
+};
+
+function describeJob(job: Job): string {
+    const position = getQueuePosition(job);
+    const status = position ? `${STATUS_LABELS.queued} (position ${position})` : STATUS_LABELS[job.status];
+    return `#${job.id} ${status} — ${job.label}`;
+}
+
+/**
+ * Tell the user their download was accepted, and where it sits if it has to wait
+ */
+export async function announceJob(ctx: MessageContext, job: Job): Promise<void> {
+    const position = getQueuePosition(job);
+    if (position === 0) return;
+    await ctx.reply(`📋 Download #${job.id} queued (position ${position}).\nType \`${ctx.prefix}queue\` to check on it or \`${ctx.prefix}cancel\` to stop it.`);
+}
+
+export const queueCommand: Command = {
+    name: 'queue',
+    description: 'Show your downloads and their place in the queue',
+    category: 'media',
+    async run(ctx) {
+        const all = getJobs();
+        const mine = all.filter(job => job.chatId === ctx.chatId && !isFinished(job));
+        const running = all.filter(isActive).length;
+        const waiting = all.filter(job => job.status === 'queued').length;
+
+        if (mine.length === 0) {
+            await ctx.reply(`📭 You have no downloads in the queue.\n(${running} running, ${waiting} waiting overall)`);
+            return;
+        }
+
+        let text = '📋 *Your downloads*\n\n';
+        mine.forEach(job => text += `${describeJob(job)}\n`);
+        text += `\n${running} running, ${waiting} waiting overall.`;
+        await ctx.transport.sendText(ctx.chatId, text);
+    },
+};
+
+export const cancelCommand: Command = {
+    name: 'cancel',
+    usage: '[job number]',
+    description: 'Cancel your queued or running downloads',
+    category: 'media',
+    async run(ctx) {
+        if (!ctx.args) {
+            const count = cancelChatJobs(ctx.chatId);
+            await ctx.reply(count > 0 ? `🛑 Cancelled ${count} download${count === 1 ? '' : 's'}.` : '📭 Nothing to cancel.');
+            return;
+        }
+
+        const id = /^#?(\d+)$/.exec(ctx.args)?.[1];
+        if (!id) {
+            await ctx.reply(`Usage: ${ctx.prefix}cancel [job number]`);
+            return;
+        }
+
+        const job = getJob(Number(id));
+        if (!job || job.chatId !== ctx.chatId) {
+            await ctx.reply(`❌ No download #${id} in this chat. Type \`${ctx.prefix}queue\` to see yours.`);
+            return;
+        }
+        await ctx.reply(cancelJob(job) ? `🛑 Cancelled #${job.id}.` : `#${job.id} has already finished.`);
+    },
+};
@@ -0,0 +1,146 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import { removeBackground, cleanupFile as cleanupBgFile, REMBG_MODELS } from '../background-remover.js';
+import type { BackgroundRemovalOptions } from '../background-remover.js';
+import { parseArgs } from '../command-registry.js';
+import type { Command, CommandContext } from '../command-registry.js';
+import { convertToSticker } from '../sticker-maker.js';
+import { stickerMetadata } from './sticker.js';
+
+interface RemoveBgArgs extends BackgroundRemovalOptions {
+    /** Send the result as a sticker */
+    sticker?: boolean;
+    /** Use the replied-to image as the new background */
+    replyAsBackground?: boolean;
+}
+
+const OPTIONS_HELP = 'Options: color=#ffffff, bg (reply to the background picture), blur, sticker, matting, model=<name>';
+
+/**
+ * "#fff", "#ffffff", "ffffff" or a colour name, in the form ffmpeg takes; null if it's none of those
+ */
+export function parseColor(value: string): string | null {
+    const hex = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value)?.[1];
+    if (hex) return `0x${hex.length === 3 ? [...hex].map(c => c + c).join('') : hex}`;
+    return /^[a-z]+$/i.test(value) ? value.toLowerCase() : null;
+}
+
+/**
+ * Read `removebg [color=…|bg|blur] [sticker] [matting] [model=…]`.
+ * Returns an error message for anything unknown or contradictory.
+ */
+export function parseRemoveBgArgs(args: string): RemoveBgArgs | string {
+    const { words, options } = parseArgs(args);
+    const result: RemoveBgArgs = {};
+
+    for (const word of words.map(w => w.toLowerCase())) {
+        if (word === 'blur') result.blur = true;
+        else if (word === 'sticker') result.sticker = true;
+        else if (word === 'matting') result.matting = true;
+        else if (word === 'bg') result.replyAsBackground = true;
+        else return `❓ Unknown option "${word}".\n${OPTIONS_HELP}`;
+    }
+    for (const [key, value] of Object.entries(options)) {
+        if (key === 'color' || key === 'colour') {
+            const color = parseColor(value);
+            if (!color) return `❓ "${value}" isn't a colour. Use a name (white) or hex (#ffffff).`;
+            result.color = color;
+        } else if (key === 'bg') {
+            result.replyAsBackground = true;
+        } else if (key === 'model') {
+            if (!REMBG_MODELS.includes(value.toLowerCase())) return `❓ Unknown model "${value}". Models: ${REMBG_MODELS.join(', ')}`;
+            result.model = value.toLowerCase();
+        } else {
+            return `❓ Unknown option "${key}=".\n${OPTIONS_HELP}`;
+        }
+    }
+
+    if ([result.color, result.replyAsBackground, result.blur].filter(Boolean).length > 1) {
+        return '❓ Pick one of color=, bg or blur.';
+    }
+    return result;
+}
+
+function describeResult(options: BackgroundRemovalOptions = {}): string {
+    if (options.color) return `✅ Background replaced with ${options.color.replace(/^0x/, '#')}!`;
+    if (options.backgroundPath) return '✅ Background replaced!';
+    if (options.blur) return '✅ Background blurred!';
+    return '✅ Background removed!';
+}
+
+/**
+ * For `bg`: the command must be the caption of the photo to cut out, sent as a reply
+ * to the new background. Returns the saved background, or null if there isn't one.
+ */
+async function saveReplyBackground(ctx: CommandContext): Promise<string | null> {
+    const quoted = ctx.media === ctx.msg && ctx.msg.hasQuoted ? await ctx.transport.getQuotedMessage(ctx.msg) : null;
+    if (quoted?.mediaKind !== 'image') return null;
+
+    const background = await ctx.transport.downloadMedia(quoted);
+    const backgroundPath = path.join(tmpdir(), `bg_new_${Date.now()}.png`);
+    await fs.writeFile(backgroundPath, background.data);
+    return backgroundPath;
+}
+
+export const removeBgCommand: Command = {
+    name: 'removebg',
+    aliases: ['rmbg', 'nobg'],
+    usage: '[color=#fff|bg|blur] [sticker] [matting] [model=…]',
+    description: 'Remove the background from an image, or replace or blur it',
+    category: 'images',
+    media: ['image'],
+    async run(ctx) {
+        const { transport, chatId } = ctx;
+        const args = parseRemoveBgArgs(ctx.args);
+        if (typeof args === 'string') {
+            await ctx.reply(args);
+            return;
+        }
+
+        const tempInput = path.join(tmpdir(), `bg_input_${Date.now()}.png`);
+        const tempFiles = [tempInput];
+
+        try {
+            if (args.replyAsBackground) {
+                const backgroundPath = await saveReplyBackground(ctx);
+                if (!backgroundPath) {
+                    await ctx.reply(`❓ For a new background, send the photo with the caption \`${ctx.prefix}removebg bg\` as a reply to the background picture.`);
+                    return;
+                }
+                args.backgroundPath = backgroundPath;
+                tempFiles.push(backgroundPath);
+            }
+
+            await transport.sendText(chatId, "🔄 Removing background...\nThis may take a moment.");
+            const media = await transport.downloadMedia(ctx.media!);
+            await fs.writeFile(tempInput, media.data);
+
+            const result = await removeBackground(tempInput, args);
+
+            if (result.success && result.filePath) {
+                tempFiles.push(result.filePath);
+                if (args.sticker) {
+                    const stickerPath = path.join(tmpdir(), `nobg_sticker_${Date.now()}.webp`);
+                    tempFiles.push(stickerPath);
+                    await convertToSticker(result.filePath, stickerPath, { shape: 'fit', animated: false });
+                    await transport.sendSticker(chatId, await fs.readFile(stickerPath), await stickerMetadata(ctx, {}));
+                } else {
+                    await transport.sendMedia(chatId, {
+                        data: await fs.readFile(result.filePath),
+                        mimetype: 'image/png',
+                        fileName: 'no_background.png',
+                        caption: describeResult(result.options)
+                    });
+                }
+            } else {
+                await transport.sendText(chatId, `❌ ${result.error || 'Failed to remove background'}`);
+            }
+        } catch (e: any) {
+            console.error('Background removal error:', e);
+            await transport.sendText(chatId, `❌ Error: ${e.message}`);
+        } finally {
+            await Promise.all(tempFiles.map(cleanupBgFile));
+        }
+    },
+};
@@ -0,0 +1,232 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import { config } from '../config.js';
+import { parseArgs } from '../command-registry.js';
+import type { Command, MessageContext, MessageHandler } from '../command-registry.js';
+import { extractFirstFrame, isAnimatedWebp } from '../sticker-exif.js';
+import { ANIMATED_MAX_SECONDS, convertToSticker, renderTextSticker, STICKER_SHAPES, stickerToMedia } from '../sticker-maker.js';
+import type { StickerExportFormat, StickerShape } from '../sticker-maker.js';
+import type { IncomingMessage, StickerMetadata } from '../transport.js';
+import { getUserPrefs, updateUserPrefs } from '../user-prefs.js';
+
+interface StickerArgs {
+    shape: StickerShape;
+    /** Only set when given in this message */
+    pack?: string;
+    author?: string;
+    /** Seconds, for videos */
+    start?: number;
+    duration?: number;
+    /** Meme captions */
+    top?: string;
+    bottom?: string;
+}
+
+const OPTIONS_HELP = `Options: ${STICKER_SHAPES.join(', ')}, pack="…", author="…", top="…" bottom="…", and for videos start=0:05 duration=4`;
+const MAX_STICKER_TEXT = 300;
+
+/**
+ * "5", "5s", "1:05" or "1:02:05" as seconds; null if it isn't a time
+ */
+function parseSeconds(value: string): number | null {
+    const match = /^(?:(?:(\d+):)?(\d+):)?(\d+(?:\.\d+)?)s?$/.exec(value.trim());
+    if (!match) return null;
+    return Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3]);
+}
+
+/**
+ * Read `sticker [shape] [pack="…"] [author="…"] [top="…"] [bottom="…"] [start=…] [duration=…]`.
+ * Returns an error message for anything unknown.
+ */
+function parseStickerArgs(args: string): StickerArgs | string {
+    const { words, options } = parseArgs(args);
+    const result: StickerArgs = { shape: 'fit' };
+
+    for (const word of words) {
+        const shape = word.toLowerCase() as StickerShape;
+        if (!STICKER_SHAPES.includes(shape)) return `❓ Unknown sticker option "${word}".\n${OPTIONS_HELP}`;
+        result.shape = shape;
+    }
+    for (const [key, value] of Object.entries(options)) {
+        if (key === 'pack' || key === 'author' || key === 'top' || key === 'bottom') {
+            result[key] = value;
+        } else if (key === 'start' || key === 'duration') {
+            const seconds = parseSeconds(value);
+            if (seconds === null || (key === 'duration' && seconds <= 0)) return `❓ "${value}" isn't a time. Use seconds (4) or minutes:seconds (1:05).`;
+            result[key] = seconds;
+        } else {
+            return `❓ Unknown sticker option "${key}=".\n${OPTIONS_HELP}`;
+        }
+    }
+    return result;
+}
+
+/**
+ * The sender's pack/author, after saving any they just gave as their new default.
+ * An empty value (pack="") goes back to the bot's default.
+ */
+export async function stickerMetadata(ctx: MessageContext, options: Pick<StickerArgs, 'pack' | 'author'>): Promise<StickerMetadata> {
+    let prefs = getUserPrefs(ctx.msg.senderId);
+    if (options.pack !== undefined || options.author !== undefined) {
+        prefs = await updateUserPrefs(ctx.msg.senderId, {
+            ...(options.pack !== undefined && { stickerPack: options.pack || undefined }),
+            ...(options.author !== undefined && { stickerAuthor: options.author || undefined }),
+        });
+    }
+    return {
+        pack: prefs.stickerPack ?? config.stickerPack,
+        author: prefs.stickerAuthor ?? config.stickerAuthor
+    };
+}
+
+/**
+ * Download an image, GIF or video message, convert it to a 512x512 WebP and send it as a sticker
+ */
+async function convertAndSendSticker(ctx: MessageContext, source: IncomingMessage, options: StickerArgs) {
+    const { transport, chatId } = ctx;
+    const media = await transport.downloadMedia(source);
+    const animated = media.mimetype === 'image/gif' || media.mimetype.startsWith('video/');
+    const metadata = await stickerMetadata(ctx, options);
+
+    await transport.sendText(chatId, animated ? "🎨 Converting to an animated sticker..." : "🎨 Converting to sticker...");
+    const tempInput = path.join(tmpdir(), `input_${Date.now()}.${animated ? 'mp4' : 'png'}`);
+    const tempOutput = path.join(tmpdir(), `output_${Date.now()}.webp`);
+    try {
+        await fs.writeFile(tempInput, media.data);
+        const captions = { top: options.top, bottom: options.bottom };
+        const result = await convertToSticker(tempInput, tempOutput, { ...options, animated, captions });
+        if (!result.success) {
+            await ctx.reply(`❌ ${result.error}`);
+            return;
+        }
+
+        const stickerBuffer = await fs.readFile(tempOutput);
+        await transport.sendSticker(chatId, stickerBuffer, metadata);
+        if (result.trimmedTo) {
+            await transport.sendText(chatId, `✂️ Used ${result.trimmedTo}s ${options.start ? `from ${options.start}s` : 'from the start'}; stickers can be at most ${ANIMATED_MAX_SECONDS}s. Pick another part with start=… duration=…`);
+        }
+    } catch (e: any) {
+        console.error('Sticker conversion error:', e.message);
+        await ctx.reply(e.missing ? `❌ ${e.message}` : "❌ Error converting to sticker.");
+    } finally {
+        try { await fs.unlink(tempInput); await fs.unlink(tempOutput); } catch (e) {}
+    }
+}
+
+export const stickerCommand: Command = {
+    name: 'sticker',
+    aliases: ['s'],
+    usage: '[fit|crop|circle|rounded] [top="…" bottom="…"] [pack="…" author="…"] [start=… duration=…]',
+    description: `Turn an image, GIF or video (up to ${ANIMATED_MAX_SECONDS}s) into a sticker; pack and author are remembered for next time`,
+    category: 'stickers',
+    media: ['image', 'gif', 'video'],
+    async run(ctx) {
+        const options = parseStickerArgs(ctx.args);
+        if (typeof options === 'string') {
+            await ctx.reply(options);
+            return;
+        }
+        await convertAndSendSticker(ctx, ctx.media!, options);
+    },
+};
+
+export const textStickerCommand: Command = {
+    name: 'tsticker',
+    aliases: ['ts', 'textsticker'],
+    usage: '<text>',
+    description: 'Turn text into a sticker',
+    category: 'stickers',
+    argsRequired: true,
+    async run(ctx) {
+        const { transport, chatId } = ctx;
+        const text = ctx.args.trim();
+        if (text.length > MAX_STICKER_TEXT) {
+            await ctx.reply(`❌ That's too much text for a sticker (${text.length} characters, max ${MAX_STICKER_TEXT}).`);
+            return;
+        }
+
+        const tempOutput = path.join(tmpdir(), `text_${Date.now()}.webp`);
+        try {
+            await renderTextSticker(text, tempOutput);
+            const metadata = await stickerMetadata(ctx, {});
+            await transport.sendSticker(chatId, await fs.readFile(tempOutput), metadata);
+        } catch (e: any) {
+            console.error('Text sticker error:', e.message);
+            await ctx.reply(e.missing ? `❌ ${e.message}` : "❌ Couldn't make a sticker from that text.");
+        } finally {
+            await fs.unlink(tempOutput).catch(() => {});
+        }
+    },
+};
+
+const EXPORT_TYPES: Record<StickerExportFormat, { mimetype: string; fileName: string }> = {
+    png: { mimetype: 'image/png', fileName: 'sticker.png' },
+    mp4: { mimetype: 'video/mp4', fileName: 'sticker.mp4' },
+    gif: { mimetype: 'image/gif', fileName: 'sticker.gif' },
+};
+
+export const toImageCommand: Command = {
+    name: 'toimg',
+    aliases: ['toimage', 'unsticker'],
+    usage: '[gif]',
+    description: 'Turn a sticker back into a picture (animated ones become a video, or a GIF file with "gif")',
+    category: 'stickers',
+    media: ['sticker'],
+    async run(ctx) {
+        const { transport, chatId } = ctx;
+        const wanted = ctx.args.trim().toLowerCase();
+        if (wanted && wanted !== 'gif' && wanted !== 'mp4' && wanted !== 'video') {
+            await ctx.reply(`❓ Unknown option "${ctx.args.trim()}". Use \`${ctx.prefix}toimg\` or \`${ctx.prefix}toimg gif\`.`);
+            return;
+        }
+
+        const tempInput = path.join(tmpdir(), `sticker_${Date.now()}.webp`);
+        let tempOutput = '';
+        try {
+            const media = await transport.downloadMedia(ctx.media!);
+            const animated = isAnimatedWebp(media.data);
+            let format: StickerExportFormat = animated ? (wanted === 'gif' ? 'gif' : 'mp4') : 'png';
+            let note = '';
+            tempOutput = path.join(tmpdir(), `unsticker_${Date.now()}.${format}`);
+            await fs.writeFile(tempInput, media.data);
+
+            try {
+                await stickerToMedia(tempInput, tempOutput, format);
+            } catch (e: any) {
+                // Older ffmpeg builds can't decode animated WebP; the first frame still beats nothing
+                const frame = animated && !e.missing ? extractFirstFrame(media.data) : null;
+                if (!frame) throw e;
+                console.error('Animated sticker conversion failed, sending the first frame:', e.message);
+
+                format = 'png';
+                note = "⚠️ This server's ffmpeg can't read animated stickers, so here's the first frame.";
+                tempOutput = path.join(tmpdir(), `unsticker_${Date.now()}.png`);
+                await fs.writeFile(tempInput, frame);
+                await stickerToMedia(tempInput, tempOutput, format);
+            }
+
+            const file = { data: await fs.readFile(tempOutput), ...EXPORT_TYPES[format], caption: note || undefined };
+            if (format === 'gif') {
+                await transport.sendDocument(chatId, file);
+            } else {
+                await transport.sendMedia(chatId, file);
+            }
+        } catch (e: any) {
+            console.error('Sticker export error:', e.message);
+            await ctx.reply(e.missing ? `❌ ${e.message}` : "❌ Couldn't convert this sticker.");
+        } finally {
+            await fs.unlink(tempInput).catch(() => {});
+            if (tempOutput) await fs.unlink(tempOutput).catch(() => {});
+        }
+    },
+};
+
+/**
+ * GIFs convert to stickers without any caption
+ */
+export const autoStickerHandler: MessageHandler = async (ctx) => {
+    if (ctx.msg.mediaKind !== 'gif') return false;
+    await convertAndSendSticker(ctx, ctx.msg, { shape: 'fit' });
+    return true;
+};
@@ -0,0 +1,84 @@
+import type { Command } from '../command-registry.js';
+import { getMovieLinks } from '../movie-providers.js';
+import { getSession } from '../session-store.js';
+import type { Transport } from '../transport.js';
+import { followTitle, getFollowedTitles, unfollowTitle } from '../watchlist.js';
+import type { NewLinksHandler } from '../watchlist.js';
+import { offerLinks } from './movies.js';
+import type { MovieSession } from './movies.js';
+
+/**
+ * Message a follower about new links as an episode menu they can answer straight away
+ */
+export function notifyNewLinks(transport: Transport): NewLinksHandler {
+    return (chatId, entry, links) => offerLinks(transport, chatId, entry, links,
+        `🆕 *New on ${entry.title}!* (${links.length} new file${links.length === 1 ? '' : 's'})`);
+}
+
+export const followCommand: Command = {
+    name: 'follow',
+    usage: '[number]',
+    description: 'Get a message when a series from your search gets new episodes',
+    category: 'movies',
+    async run(ctx) {
+        const lookup = getSession<MovieSession>(ctx.chatId, 'movies');
+        const session = lookup.status === 'active' ? lookup.session : undefined;
+        const number = parseInt(ctx.args);
+
+        // A number picks from the search results, no number means the title that's open
+        const movie = ctx.args
+            ? (!isNaN(number) ? session?.lastResults?.[number - 1] : undefined)
+            : session?.selectedMovie;
+        if (!movie) {
+            return ctx.reply(`Search first, then type \`${ctx.prefix}follow <number>\` with the number of the series.`);
+        }
+
+        await ctx.reply(`👀 Checking what *${movie.title}* has so far...`);
+        const links = await getMovieLinks(movie);
+        if (!await followTitle(ctx.chatId, movie, links)) {
+            return ctx.reply(`You already follow *${movie.title}*.`);
+        }
+        await ctx.reply(`✅ Following *${movie.title}* (${links.length} file${links.length === 1 ? '' : 's'} so far). You'll get a message when new ones appear.\nType \`${ctx.prefix}following\` to see your list.`);
+    },
+};
+
+export const followingCommand: Command = {
+    name: 'following',
+    aliases: ['watchlist'],
+    description: 'Series you follow',
+    category: 'movies',
+    async run(ctx) {
+        const titles = getFollowedTitles(ctx.chatId);
+        if (titles.length === 0) {
+            return ctx.reply(`You don't follow anything yet. Search for a series, then type \`${ctx.prefix}follow <number>\`.`);
+        }
+
+        let list = "👀 *You follow:*\n\n";
+        titles.forEach((t, i) => list += `${i + 1}. ${t.title}\n`);
+        list += `\nType \`${ctx.prefix}unfollow <number>\` to stop.`;
+        await ctx.reply(list);
+    },
+};
+
+export const unfollowCommand: Command = {
+    name: 'unfollow',
+    aliases: ['unwatch'],
+    usage: '<number|all>',
+    description: 'Stop following a series (numbers from the following list)',
+    category: 'movies',
+    argsRequired: true,
+    async run(ctx) {
+        const titles = getFollowedTitles(ctx.chatId);
+        const picked = ctx.args.toLowerCase() === 'all' ? titles : [titles[parseInt(ctx.args) - 1]];
+        if (picked.length === 0 || !picked[0]) {
+            return ctx.reply(`Pick a number from \`${ctx.prefix}following\`, or \`${ctx.prefix}unfollow all\`.`);
+        }
+
+        for (const title of picked) {
+            await unfollowTitle(ctx.chatId, title!.url);
+        }
+        await ctx.reply(picked.length === 1
+            ? `🔕 Stopped following *${picked[0]!.title}*.`
+            : `🔕 Stopped following ${picked.length} series.`);
+    },
+};
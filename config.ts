@@ -0,0 +1,55 @@
+/**
+ * Runtime settings, read once from the environment
+ */
+export const config = {
+    /** Command prefix such as "!" or "/". Empty means bare words ("sticker", "search ...") */
+    prefix: process.env.BOT_PREFIX ?? '',
+    /** Where persistent state (sessions etc.) is stored */
+    dataDir: process.env.DATA_DIR || 'data',
+    /** How long a menu stays answerable after the last step */
+    sessionTtlMs: Number(process.env.SESSION_TTL_MINUTES || 30) * 60 * 1000,
+    /** Downloads running at once across all chats */
+    maxConcurrentJobs: Number(process.env.MAX_CONCURRENT_DOWNLOADS || 2),
+    /** Downloads running at once for a single chat; the rest wait in the queue */
+    maxJobsPerChat: Number(process.env.MAX_DOWNLOADS_PER_CHAT || 1),
+    /** Split files larger than this many MB into numbered parts. 0 disables splitting */
+    splitPartSizeMb: Number(process.env.SPLIT_PART_SIZE_MB || 0),
+    /** Automatic resumes after a movie download's connection drops */
+    downloadRetries: Number(process.env.DOWNLOAD_RETRIES || 3),
+    /** Parallel ranged requests per movie download when the server supports ranges. 1 = single stream */
+    downloadChunks: Number(process.env.DOWNLOAD_CHUNKS || 1),
+    /** Largest file the bot tries to send through WhatsApp when it could host it instead */
+    maxSendSizeMb: Number(process.env.MAX_SEND_SIZE_MB || 64),
+    /** Longest video or track a pasted link may download, in minutes. 0 allows any length */
+    mediaMaxMinutes: Number(process.env.MEDIA_MAX_MINUTES || 120),
+    /** Send a thumbnail preview while a pasted link downloads */
+    mediaThumbnails: process.env.MEDIA_THUMBNAILS !== 'false',
+    /** Port for the built-in download server for files too big for WhatsApp. 0 disables it */
+    fileServerPort: Number(process.env.FILE_SERVER_PORT || 0),
+    /** Public base URL of the download server, e.g. https://files.example.com */
+    fileServerUrl: process.env.FILE_SERVER_URL || '',
+    /** Signing key for download links; generated and stored in the data directory if unset */
+    fileServerSecret: process.env.FILE_SERVER_SECRET || '',
+    /** How long a download link stays valid */
+    fileServerTtlHours: Number(process.env.FILE_SERVER_TTL_HOURS || 2),
+    /** Total disk space hosted files may use */
+    fileServerQuotaMb: Number(process.env.FILE_SERVER_QUOTA_MB || 10240),
+    /** Thenkiri site root, for when it moves domain (the tests point it at a local server) */
+    nkiriBaseUrl: process.env.NKIRI_BASE_URL || 'https://thenkiri.com',
+    /** How long search results are cached */
+    searchCacheMs: Number(process.env.SEARCH_CACHE_MINUTES || 60) * 60 * 1000,
+    /** How long a title's resolved download links are cached (hosts' file URLs expire) */
+    linkCacheMs: Number(process.env.LINK_CACHE_MINUTES || 20) * 60 * 1000,
+    /** Phone numbers (digits only, comma-separated) allowed to run admin commands */
+    admins: (process.env.BOT_ADMINS || '').split(',').map(n => n.replace(/\D/g, '')).filter(Boolean),
+    /** How often followed series are checked for new episodes. 0 disables the checks */
+    watchlistIntervalMs: Number(process.env.WATCHLIST_INTERVAL_MINUTES || 360) * 60 * 1000,
+    /** Sticker pack name for users who haven't set their own */
+    stickerPack: process.env.STICKER_PACK || 'Bot',
+    /** Sticker author for users who haven't set their own */
+    stickerAuthor: process.env.STICKER_AUTHOR || 'Ronnie',
+    /** Port for a local `rembg s` kept running so the model stays loaded. 0 runs the CLI per image */
+    rembgServerPort: Number(process.env.REMBG_SERVER_PORT || 0),
+    /** Font file for text and meme stickers; empty uses the bundled DejaVu Sans Bold */
+    stickerFont: process.env.STICKER_FONT || '',
+};
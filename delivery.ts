@@ -0,0 +1,112 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config.js';
+import { splitFile, cleanupParts } from './file-splitter.js';
+import { hostFile, isFileServerEnabled } from './file-server.js';
+import type { Transport } from './transport.js';
+
+export interface DeliveryFile {
+    filePath: string;
+    fileName: string;
+    mimetype: string;
+    caption: string;
+    /** Always send as a document instead of inline media */
+    asDocument?: boolean;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Is splitting enabled, and would this size need it?
+ */
+export function needsSplitting(size: number): boolean {
+    return config.splitPartSizeMb > 0 && size > config.splitPartSizeMb * MB;
+}
+
+/**
+ * Hand the file to the built-in file server and send the link instead
+ */
+async function sendHostedLink(transport: Transport, chatId: string, file: DeliveryFile, size: number): Promise<void> {
+    const hosted = await hostFile(file.filePath, file.fileName);
+    if (!hosted.success || !hosted.url) {
+        throw new Error(hosted.error || 'Could not host the file');
+    }
+    await transport.sendText(chatId, `📦 *${file.fileName}* (${(size / MB).toFixed(0)}MB) is too large to send here.\nFetch it here within the next ${config.fileServerTtlHours} hour${config.fileServerTtlHours === 1 ? '' : 's'} (the link works for one download):\n${hosted.url}`);
+}
+
+/**
+ * Send one file, as inline media where allowed with a document fallback
+ */
+async function sendSingle(transport: Transport, chatId: string, file: DeliveryFile, data: string, fileName: string, caption: string) {
+    const media = { data, mimetype: file.mimetype, fileName, caption };
+    if (file.asDocument) {
+        await transport.sendDocument(chatId, media);
+        return;
+    }
+
+    try {
+        await transport.sendMedia(chatId, media);
+    } catch (sendError: any) {
+        console.error('Error sending media, retrying as document:', sendError.message);
+        await transport.sendDocument(chatId, media);
+    }
+}
+
+/**
+ * Send a finished download. Files over the configured part size are split into
+ * numbered parts and sent in order with "Part i/n" captions. Otherwise, with the
+ * file server enabled, files over the send limit (or that WhatsApp rejects) are
+ * offered as an expiring download link. A hosted file is moved, not copied.
+ */
+export async function deliverFile(transport: Transport, chatId: string, file: DeliveryFile, signal?: AbortSignal): Promise<void> {
+    const { size } = await fs.stat(file.filePath);
+    if (!needsSplitting(size)) {
+        if (isFileServerEnabled() && size > config.maxSendSizeMb * MB) {
+            await sendHostedLink(transport, chatId, file, size);
+            return;
+        }
+
+        try {
+            await sendSingle(transport, chatId, file, file.filePath, file.fileName, file.caption);
+        } catch (sendError: any) {
+            if (!isFileServerEnabled() || signal?.aborted) throw sendError;
+            console.error('WhatsApp rejected the file, hosting it instead:', sendError.message);
+            await sendHostedLink(transport, chatId, file, size);
+        }
+        return;
+    }
+
+    await transport.sendText(chatId, `✂️ File is ${(size / MB).toFixed(0)}MB, splitting it into parts of up to ${config.splitPartSizeMb}MB...`);
+    const split = await splitFile(file.filePath, config.splitPartSizeMb * MB, {
+        media: /^(video|audio)\//.test(file.mimetype),
+        signal
+    });
+
+    try {
+        const total = split.parts.length;
+        const ext = path.extname(file.fileName);
+        const base = path.basename(file.fileName, ext);
+
+        for (const [i, part] of split.parts.entries()) {
+            signal?.throwIfAborted();
+            const label = `Part ${i + 1}/${total}`;
+            if (split.method === 'segments') {
+                await sendSingle(transport, chatId, file, part, `${base}.part${i + 1}${ext}`, `${file.caption}\n${label}`);
+            } else {
+                // Byte-level parts are not playable on their own, so they always go as documents
+                await transport.sendDocument(chatId, {
+                    data: part,
+                    mimetype: 'application/octet-stream',
+                    fileName: `${file.fileName}.${String(i + 1).padStart(3, '0')}`,
+                    caption: `${file.caption}\n${label}`
+                });
+            }
+        }
+
+        if (split.method === 'bytes') {
+            await transport.sendText(chatId, `ℹ️ These ${total} parts must be joined to play:\n\`cat "${file.fileName}".0* > "${file.fileName}"\` (Linux/macOS)\n\`copy /b "${file.fileName}.001"+"${file.fileName}.002" "${file.fileName}"\` (Windows, list every part)`);
+        }
+    } finally {
+        await cleanupParts(file.filePath, split);
+    }
+}
@@ -0,0 +1,172 @@
+import type { DownloadLink } from './movie-providers.js';
+
+export interface ParsedLink extends DownloadLink {
+    season?: number;
+    episode?: number;
+    /** e.g. "720p" */
+    quality?: string;
+    /** e.g. "x265" */
+    codec?: string;
+    /** e.g. "mkv", taken from the file name in the URL */
+    extension?: string;
+}
+
+const QUALITY_PATTERN = /\b(2160|1080|720|576|480|360|240)p\b/i;
+const CODEC_PATTERN = /\b(x26[45]|h\.?26[45]|hevc|avc|av1|xvid|10bit)\b/i;
+const EXTENSION_PATTERN = /\.(mkv|mp4|avi|webm|m4v|mov)$/i;
+
+// Ordered from most to least specific; the first one that matches wins
+const EPISODE_PATTERNS: { pattern: RegExp; season?: number; episode: number }[] = [
+    { pattern: /\bS(\d{1,2})[\s._-]*E(\d{1,3})\b/i, season: 1, episode: 2 },
+    { pattern: /\b(\d{1,2})x(\d{2,3})\b/i, season: 1, episode: 2 },
+    { pattern: /\bSeason[\s._-]*(\d{1,2})[\s._-]*(?:Episode|Ep)[\s._-]*(\d{1,3})\b/i, season: 1, episode: 2 },
+    { pattern: /\b(?:Episode|Ep)[\s._-]*(\d{1,3})\b/i, episode: 1 },
+    { pattern: /\bE(\d{1,3})\b/i, episode: 1 },
+];
+const SEASON_PATTERN = /\b(?:S|Season[\s._-]*)(\d{1,2})\b/i;
+
+/**
+ * Last path segment of a URL without the query string, e.g. "Show.S01E01.mkv"
+ */
+export function fileNameFromUrl(url: string): string {
+    const name = url.split('/').pop()?.split('?')[0] || '';
+    try {
+        return decodeURIComponent(name);
+    } catch {
+        return name;
+    }
+}
+
+function normalizeCodec(codec: string): string {
+    const lower = codec.toLowerCase().replace('.', '');
+    if (lower === 'hevc' || lower === 'h265') return 'x265';
+    if (lower === 'avc' || lower === 'h264') return 'x264';
+    return lower;
+}
+
+/**
+ * Pull season, episode, quality, codec and extension out of a link's label and
+ * file name. Fields that can't be found are left undefined.
+ */
+export function parseLink(link: DownloadLink): ParsedLink {
+    const fileName = fileNameFromUrl(link.url);
+    // Labels are often just "Download Episode 3", so the file name fills the gaps
+    const text = `${link.label} ${fileName}`;
+    const parsed: ParsedLink = { ...link };
+
+    for (const { pattern, season, episode } of EPISODE_PATTERNS) {
+        const match = pattern.exec(text);
+        if (!match) continue;
+        parsed.episode = parseInt(match[episode]!);
+        if (season) parsed.season = parseInt(match[season]!);
+        break;
+    }
+    if (parsed.season === undefined) {
+        const season = SEASON_PATTERN.exec(text)?.[1];
+        if (season) parsed.season = parseInt(season);
+    }
+
+    const quality = QUALITY_PATTERN.exec(text)?.[1];
+    if (quality) parsed.quality = `${quality}p`;
+    else if (/\b4k\b/i.test(text)) parsed.quality = '2160p';
+
+    const codec = CODEC_PATTERN.exec(text)?.[1];
+    if (codec) parsed.codec = normalizeCodec(codec);
+
+    const extension = EXTENSION_PATTERN.exec(fileName)?.[1];
+    if (extension) parsed.extension = extension.toLowerCase();
+
+    return parsed;
+}
+
+/**
+ * Order by season, then episode, then quality. Links without an episode number
+ * keep their page order after the episodes.
+ */
+export function sortLinks(links: ParsedLink[]): ParsedLink[] {
+    const qualityOf = (l: ParsedLink) => parseInt(l.quality || '0');
+    return links
+        .map((link, index) => ({ link, index }))
+        .sort((a, b) => {
+            const aEp = a.link.episode ?? Infinity;
+            const bEp = b.link.episode ?? Infinity;
+            if (aEp === Infinity || bEp === Infinity) {
+                return aEp === bEp ? a.index - b.index : aEp - bEp;
+            }
+            return (a.link.season ?? 0) - (b.link.season ?? 0)
+                || aEp - bEp
+                || qualityOf(a.link) - qualityOf(b.link)
+                || a.index - b.index;
+        })
+        .map(({ link }) => link);
+}
+
+/**
+ * Distinct season numbers in ascending order. Links without a season count as season 0.
+ */
+export function listSeasons(links: ParsedLink[]): number[] {
+    return [...new Set(links.map(l => l.season ?? 0))].sort((a, b) => a - b);
+}
+
+/**
+ * Strip season markers and site suffixes from a title: "Squid Game S2 (Complete)" -> "Squid Game"
+ */
+export function baseTitle(title: string): string {
+    return title
+        .replace(/\s*\b(?:S\d{1,2}|Season\s*\d{1,2})\b.*$/i, '')
+        .replace(/\s*\|.*$/, '')
+        .trim() || title.trim();
+}
+
+/**
+ * Menu label for a link: "Squid Game S2 E3 · 720p x265 · mkv" for episodes, otherwise a
+ * cleaned-up version of the original label
+ */
+export function formatLinkLabel(title: string, link: ParsedLink): string {
+    const details = [link.quality, link.codec].filter(Boolean).join(' ');
+    const extras = [details, link.extension].filter(Boolean).join(' · ');
+
+    if (link.episode !== undefined) {
+        const season = link.season !== undefined ? ` S${link.season}` : '';
+        return `${baseTitle(title)}${season} E${link.episode}${extras ? ` · ${extras}` : ''}`;
+    }
+
+    let label = link.label.replace(/download/gi, '')
+                          .replace(/\.(mkv|mp4|html|nkiri|com)/gi, ' ')
+                          .replace(/[._-]/g, ' ')
+                          .replace(/\s+/g, ' ')
+                          .trim();
+    if (!label.toLowerCase().includes(title.toLowerCase())) {
+        label = label ? `${title} - ${label}` : title;
+    }
+    return extras ? `${label} · ${extras}` : label;
+}
+
+const SELECTION_PATTERN = /^(?:all|\d+(?:\s*-\s*\d+)?(?:\s*,\s*\d+(?:\s*-\s*\d+)?)*)$/i;
+
+/**
+ * Does this text look like a menu reply: "3", "3-6", "1,4,7-9" or "all"?
+ */
+export function isSelection(text: string): boolean {
+    return SELECTION_PATTERN.test(text.trim());
+}
+
+/**
+ * Expand a menu reply into zero-based indexes for a menu of `count` items.
+ * Returns null when any number is outside the menu.
+ */
+export function expandSelection(text: string, count: number): number[] | null {
+    const input = text.trim().toLowerCase();
+    if (!SELECTION_PATTERN.test(input)) return null;
+    if (input === 'all') return Array.from({ length: count }, (_, i) => i);
+
+    const indexes = new Set<number>();
+    for (const part of input.split(',')) {
+        const [from, to = from] = part.split('-').map(n => parseInt(n));
+        const start = Math.min(from!, to!);
+        const end = Math.max(from!, to!);
+        if (start < 1 || end > count) return null;
+        for (let n = start; n <= end; n++) indexes.add(n - 1);
+    }
+    return [...indexes];
+}
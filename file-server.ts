@@ -0,0 +1,203 @@
+import http from 'http';
+import fs from 'fs/promises';
+import { createReadStream, mkdirSync } from 'fs';
+import path from 'path';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from './config.js';
+import { openJsonFile } from './json-file.js';
+
+interface HostedFile {
+    id: string;
+    fileName: string;
+    filePath: string;
+    size: number;
+    expiresAt: number;
+}
+
+export interface HostResult {
+    success: boolean;
+    url?: string;
+    expiresAt?: number;
+    error?: string;
+}
+
+const MB = 1024 * 1024;
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+const hostedDir = path.join(config.dataDir, 'hosted');
+const state = openJsonFile<{ secret: string; files: Record<string, HostedFile> }>('hosted-files.json', { secret: '', files: {} });
+
+// Keep the signing secret across restarts so links stay valid
+if (!state.data.secret) {
+    state.data.secret = config.fileServerSecret || randomBytes(32).toString('hex');
+    void state.save();
+}
+
+let server: http.Server | undefined;
+// Links being downloaded right now; a second request for one is refused
+const downloading = new Set<string>();
+
+/**
+ * Hosting needs a public URL too: a localhost link is no use to anyone on WhatsApp
+ */
+export function isFileServerEnabled(): boolean {
+    return config.fileServerPort > 0 && !!config.fileServerUrl;
+}
+
+function sign(id: string, expiresAt: number): string {
+    return createHmac('sha256', config.fileServerSecret || state.data.secret)
+        .update(`${id}.${expiresAt}`)
+        .digest('base64url');
+}
+
+/**
+ * Token format: <id>.<expiresAt>.<signature>
+ */
+function verifyToken(token: string): HostedFile | null {
+    const [id, expires, signature] = token.split('.');
+    if (!id || !expires || !signature) return null;
+
+    const expected = Buffer.from(sign(id, Number(expires)));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+    if (Date.now() > Number(expires)) return null;
+
+    return state.data.files[id] || null;
+}
+
+async function removeHostedFile(file: HostedFile): Promise<void> {
+    delete state.data.files[file.id];
+    await state.save();
+    await fs.unlink(file.filePath).catch(() => {});
+}
+
+function usedBytes(): number {
+    return Object.values(state.data.files).reduce((sum, f) => sum + f.size, 0);
+}
+
+/**
+ * Delete expired files and anything in the hosted directory we no longer track
+ */
+async function cleanupExpired(): Promise<void> {
+    const now = Date.now();
+    for (const file of Object.values(state.data.files)) {
+        if (now > file.expiresAt) {
+            console.log(`Hosted file expired: ${file.fileName}`);
+            await removeHostedFile(file);
+        }
+    }
+
+    const tracked = new Set(Object.values(state.data.files).map(f => path.basename(f.filePath)));
+    const files = await fs.readdir(hostedDir).catch(() => [] as string[]);
+    await Promise.all(files
+        .filter(f => !tracked.has(f))
+        .map(f => fs.unlink(path.join(hostedDir, f)).catch(() => {})));
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const match = /^\/f\/([^/?]+)/.exec(req.url || '');
+    const file = match?.[1] ? verifyToken(decodeURIComponent(match[1])) : null;
+
+    if (req.method !== 'GET' || !file || downloading.has(file.id)) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('This link has expired or was already used.');
+        return;
+    }
+
+    // Single use: the link is taken as soon as a download starts, and only
+    // handed back if that download doesn't complete
+    downloading.add(file.id);
+    let completed = false;
+
+    res.writeHead(200, {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': file.size,
+        'Content-Disposition': `attachment; filename="${file.fileName.replace(/"/g, '')}"`
+    });
+
+    const stream = createReadStream(file.filePath);
+    stream.pipe(res);
+    res.on('finish', () => {
+        completed = true;
+        console.log(`Hosted file downloaded: ${file.fileName}`);
+        void removeHostedFile(file).finally(() => downloading.delete(file.id));
+    });
+    res.on('close', () => {
+        if (!completed) downloading.delete(file.id);
+    });
+    stream.on('error', (error) => {
+        console.error('Hosted file read error:', error.message);
+        res.destroy();
+    });
+}
+
+/**
+ * The download server, not yet listening
+ */
+export function createFileServer(): http.Server {
+    mkdirSync(hostedDir, { recursive: true });
+    return http.createServer((req, res) => {
+        handleRequest(req, res).catch((error) => {
+            console.error('File server error:', error);
+            res.destroy();
+        });
+    });
+}
+
+/**
+ * Start the download server and its cleanup timer. Safe to call more than once.
+ */
+export function startFileServer(): void {
+    if (config.fileServerPort > 0 && !config.fileServerUrl) {
+        console.warn('⚠️ FILE_SERVER_PORT is set but FILE_SERVER_URL is not; large files won\'t be offered as links until it is');
+    }
+    if (server || !isFileServerEnabled()) return;
+
+    server = createFileServer();
+    server.listen(config.fileServerPort, () => {
+        console.log(`📦 File server listening on port ${config.fileServerPort}`);
+    });
+
+    void cleanupExpired();
+    setInterval(() => void cleanupExpired(), CLEANUP_INTERVAL_MS).unref();
+}
+
+/**
+ * Move a finished download into the hosted directory and return a signed,
+ * expiring, single-use link to it
+ */
+export async function hostFile(sourcePath: string, fileName: string): Promise<HostResult> {
+    if (!isFileServerEnabled()) {
+        return { success: false, error: 'File hosting is disabled' };
+    }
+
+    await cleanupExpired();
+    const { size } = await fs.stat(sourcePath);
+    const quota = config.fileServerQuotaMb * MB;
+    if (usedBytes() + size > quota) {
+        return { success: false, error: `Hosting space is full (${(usedBytes() / MB).toFixed(0)}/${config.fileServerQuotaMb}MB used). Try again later.` };
+    }
+
+    const id = randomBytes(12).toString('hex');
+    const filePath = path.join(hostedDir, `${id}${path.extname(fileName)}`);
+    const expiresAt = Date.now() + config.fileServerTtlHours * 60 * 60 * 1000;
+    const file: HostedFile = { id, fileName, filePath, size, expiresAt };
+    // Tracked before it's moved in, so cleanup never deletes a copy still in progress
+    state.data.files[id] = file;
+    await state.save();
+
+    try {
+        await fs.mkdir(hostedDir, { recursive: true });
+        await fs.rename(sourcePath, filePath).catch(async () => {
+            // Different filesystem: copy, then drop the original
+            await fs.copyFile(sourcePath, filePath);
+            await fs.unlink(sourcePath).catch(() => {});
+        });
+    } catch (error: any) {
+        await removeHostedFile(file);
+        return { success: false, error: `Could not host the file: ${error.message}` };
+    }
+
+    const token = `${id}.${expiresAt}.${sign(id, expiresAt)}`;
+    return { success: true, url: `${config.fileServerUrl.replace(/\/$/, '')}/f/${token}`, expiresAt };
+}
@@ -0,0 +1,115 @@
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import path from 'path';
+import { ffmpeg, ffprobeDuration } from './tool-runner.js';
+
+export interface SplitResult {
+    /** Part files in playback order */
+    parts: string[];
+    /** 'segments' parts play on their own; 'bytes' parts must be joined back together */
+    method: 'segments' | 'bytes';
+}
+
+// Aim below the cap since segment sizes vary with the bitrate of each scene
+const SEGMENT_HEADROOM = 0.9;
+const SEGMENT_ATTEMPTS = 3;
+
+async function removeFiles(files: string[]): Promise<void> {
+    await Promise.all(files.map(f => fs.unlink(f).catch(() => {})));
+}
+
+async function findParts(dir: string, prefix: string): Promise<string[]> {
+    const files = await fs.readdir(dir);
+    return files
+        .filter(f => f.startsWith(prefix))
+        .sort()
+        .map(f => path.join(dir, f));
+}
+
+/**
+ * Cut a video (at keyframes) or audio file with ffmpeg's segment muxer so every part plays on its own.
+ * Segment length is estimated from the average bitrate and shortened until all parts fit.
+ */
+async function splitMedia(filePath: string, maxBytes: number, signal?: AbortSignal): Promise<string[] | null> {
+    const { size } = await fs.stat(filePath);
+    const duration = await ffprobeDuration(filePath, { signal });
+    if (!duration || isNaN(duration)) return null;
+
+    const dir = path.dirname(filePath);
+    const ext = path.extname(filePath) || '.mp4';
+    const prefix = `${path.basename(filePath, ext)}_part`;
+    let segmentTime = duration * (maxBytes * SEGMENT_HEADROOM) / size;
+
+    for (let attempt = 1; attempt <= SEGMENT_ATTEMPTS; attempt++) {
+        const pattern = path.join(dir, `${prefix}%03d${ext}`);
+        try {
+            await ffmpeg(['-i', filePath, '-map', '0', '-c', 'copy', '-f', 'segment', '-segment_time', segmentTime.toFixed(2), '-reset_timestamps', '1', pattern], { timeoutMs: 600000, signal });
+        } catch (error) {
+            await removeFiles(await findParts(dir, prefix));
+            throw error;
+        }
+
+        const parts = await findParts(dir, prefix);
+        const sizes = await Promise.all(parts.map(async p => (await fs.stat(p)).size));
+        if (parts.length > 0 && sizes.every(s => s <= maxBytes)) return parts;
+
+        console.log(`Split attempt ${attempt}: a part exceeded ${(maxBytes / 1024 / 1024).toFixed(0)}MB, retrying with shorter segments`);
+        await removeFiles(parts);
+        segmentTime *= 0.7;
+    }
+    return null;
+}
+
+/**
+ * Cut a file into fixed-size chunks (name.ext.001, .002, ...) that have to be joined to play
+ */
+async function splitBytes(filePath: string, maxBytes: number, signal?: AbortSignal): Promise<string[]> {
+    const { size } = await fs.stat(filePath);
+    const parts: string[] = [];
+
+    try {
+        for (let start = 0, index = 1; start < size; start += maxBytes, index++) {
+            const partPath = `${filePath}.${String(index).padStart(3, '0')}`;
+            parts.push(partPath);
+            await pipeline(
+                createReadStream(filePath, { start, end: Math.min(start + maxBytes, size) - 1 }),
+                createWriteStream(partPath),
+                { signal }
+            );
+        }
+    } catch (error) {
+        await removeFiles(parts);
+        throw error;
+    }
+    return parts;
+}
+
+/**
+ * Split a file into parts no larger than maxBytes. Video and audio are segmented with
+ * ffmpeg where possible, anything else (or a failed segment run) is split byte-wise.
+ * Files already under the cap come back as a single "part" (the original path).
+ */
+export async function splitFile(filePath: string, maxBytes: number, options: { media?: boolean; signal?: AbortSignal } = {}): Promise<SplitResult> {
+    const { size } = await fs.stat(filePath);
+    if (size <= maxBytes) return { parts: [filePath], method: 'segments' };
+
+    if (options.media) {
+        try {
+            const parts = await splitMedia(filePath, maxBytes, options.signal);
+            if (parts) return { parts, method: 'segments' };
+        } catch (error: any) {
+            if (options.signal?.aborted) throw error;
+            console.error('ffmpeg segmenting failed, falling back to byte split:', error.message);
+        }
+    }
+
+    return { parts: await splitBytes(filePath, maxBytes, options.signal), method: 'bytes' };
+}
+
+/**
+ * Delete split parts (never the original file)
+ */
+export async function cleanupParts(original: string, result: SplitResult): Promise<void> {
+    await removeFiles(result.parts.filter(p => p !== original));
+}
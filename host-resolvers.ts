@@ -0,0 +1,75 @@
+import type { DownloadLink } from './movie-providers.js';
+import { fileNameFromUrl } from './episode-parser.js';
+import { builtinResolvers } from './hosts/index.js';
+
+export interface ResolvedFile {
+    /** Direct URL of the file */
+    url: string;
+    fileName?: string;
+}
+
+/**
+ * A file host that movie pages link to. Adding a mirror host means one new module
+ * in hosts/ implementing this, plus an entry in hosts/index.ts.
+ */
+export interface HostResolver {
+    id: string;
+    /** Display name, e.g. "Downloadwella" */
+    name: string;
+    matches(url: URL): boolean;
+    /** Turn a landing page into a direct file URL. Throws with the reason when it can't. */
+    resolve(url: string): Promise<ResolvedFile>;
+}
+
+const resolvers: HostResolver[] = [];
+
+export function registerResolver(resolver: HostResolver): void {
+    if (resolvers.some(r => r.id === resolver.id)) {
+        throw new Error(`Host resolver "${resolver.id}" is already registered`);
+    }
+    resolvers.push(resolver);
+}
+
+export function listResolvers(): HostResolver[] {
+    return [...resolvers];
+}
+
+export function findResolver(url: string): HostResolver | undefined {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return undefined;
+    }
+    return resolvers.find(r => r.matches(parsed));
+}
+
+function isGenericLabel(label: string): boolean {
+    const lower = label.toLowerCase().trim();
+    return !lower || lower.includes('direct link') || lower === 'download';
+}
+
+/**
+ * Resolve a link found on a movie page to its file. Links that can't be resolved
+ * come back unchanged with `unresolved` saying why, so they can still be shown.
+ */
+export async function resolveLink(link: DownloadLink): Promise<DownloadLink> {
+    const resolver = findResolver(link.url);
+    if (!resolver) {
+        let host = link.url;
+        try { host = new URL(link.url).hostname; } catch {}
+        return { ...link, unresolved: `unsupported host ${host}` };
+    }
+
+    try {
+        const file = await resolver.resolve(link.url);
+        // "Direct Link"/"Download" buttons say nothing; the file name does
+        const fileName = file.fileName || fileNameFromUrl(file.url);
+        return { ...link, url: file.url, label: isGenericLabel(link.label) && fileName ? fileName : link.label };
+    } catch (error: any) {
+        console.error(`Could not resolve ${link.url} on ${resolver.name}:`, error.message);
+        return { ...link, unresolved: `${resolver.name}: ${error.message}` };
+    }
+}
+
+builtinResolvers.forEach(registerResolver);
@@ -0,0 +1,30 @@
+import axios from 'axios';
+import https from 'https';
+import type { CheerioAPI } from 'cheerio';
+
+// File hosts often have misconfigured certs
+export const hostHttp = axios.create({
+    httpsAgent: new https.Agent({ rejectUnauthorized: false }),
+    headers: { 'User-Agent': 'Mozilla/5.0' },
+    timeout: 30000
+});
+
+/**
+ * Hidden inputs (and the named submit button) of a form, ready to POST back.
+ * Null when there's no such form.
+ */
+export function readForm($: CheerioAPI, selector: string): Record<string, string> | null {
+    const form = $(selector).first();
+    if (form.length === 0) return null;
+
+    const fields: Record<string, string> = {};
+    form.find('input[type="hidden"], input[type="submit"][name], button[type="submit"][name]').each((_, input) => {
+        const name = $(input).attr('name');
+        if (name) fields[name] = $(input).attr('value') || '';
+    });
+    return Object.keys(fields).length > 0 ? fields : null;
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,7 @@
+import { createXFileSharingResolver } from './xfilesharing.js';
+
+export const downloadwellaResolver = createXFileSharingResolver({
+    id: 'downloadwella',
+    name: 'Downloadwella',
+    domains: ['downloadwella.com'],
+});
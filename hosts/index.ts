@@ -0,0 +1,13 @@
+import type { HostResolver } from '../host-resolvers.js';
+import { downloadwellaResolver } from './downloadwella.js';
+import { nkiservResolver } from './nkiserv.js';
+import { wetafilesResolver } from './wetafiles.js';
+
+/**
+ * Built-in file host resolvers. The first one that matches a URL handles it.
+ */
+export const builtinResolvers: HostResolver[] = [
+    nkiservResolver,
+    downloadwellaResolver,
+    wetafilesResolver,
+];
@@ -0,0 +1,11 @@
+import type { HostResolver } from '../host-resolvers.js';
+
+/**
+ * Thenkiri's own file servers: links already point at the file
+ */
+export const nkiservResolver: HostResolver = {
+    id: 'nkiserv',
+    name: 'Nkiserv',
+    matches: (url) => url.hostname === 'nkiserv.com' || url.hostname.endsWith('.nkiserv.com'),
+    resolve: async (url) => ({ url }),
+};
@@ -0,0 +1,7 @@
+import { createXFileSharingResolver } from './xfilesharing.js';
+
+export const wetafilesResolver = createXFileSharingResolver({
+    id: 'wetafiles',
+    name: 'Wetafiles',
+    domains: ['wetafiles.com'],
+});
@@ -0,0 +1,66 @@
+import * as cheerio from 'cheerio';
+import type { HostResolver } from '../host-resolvers.js';
+import { hostHttp, readForm, sleep } from './common.js';
+
+// Landing page -> (free download form -> countdown) -> download form -> file
+const MAX_STEPS = 4;
+const MAX_COUNTDOWN_SECONDS = 30;
+
+function findDirectLink($: cheerio.CheerioAPI): string | undefined {
+    const href = $('#direct_link a, a#direct_link, a.direct-link').first().attr('href')
+        || $('a[href]').toArray()
+            .map(a => $(a).attr('href')!)
+            .find(h => /\.(mkv|mp4|avi|webm|m4v)(\?|$)/i.test(h));
+    return href || undefined;
+}
+
+function countdownSeconds($: cheerio.CheerioAPI): number {
+    const text = $('#countdown .seconds').first().text() || $('#countdown').first().text();
+    const seconds = parseInt(text.replace(/\D/g, ''));
+    return isNaN(seconds) ? 0 : Math.min(seconds, MAX_COUNTDOWN_SECONDS);
+}
+
+/**
+ * Resolver for hosts running the XFileSharing script (downloadwella, wetafiles, ...):
+ * the file is behind one or more POSTed forms (`F1`, or any form with an `op` field),
+ * sometimes with a countdown before the next step is accepted. The last POST answers
+ * with a redirect to the file, or a page holding a direct link.
+ */
+export function createXFileSharingResolver(options: { id: string; name: string; domains: string[] }): HostResolver {
+    return {
+        id: options.id,
+        name: options.name,
+        matches: (url) => options.domains.some(d => url.hostname === d || url.hostname.endsWith(`.${d}`)),
+        async resolve(pageUrl) {
+            let { data } = await hostHttp.get(pageUrl);
+
+            for (let step = 1; step <= MAX_STEPS; step++) {
+                const $ = cheerio.load(data);
+                const direct = findDirectLink($);
+                if (direct) return { url: new URL(direct, pageUrl).href };
+
+                const form = readForm($, 'form[name="F1"]') || readForm($, 'form:has(input[name="op"])');
+                if (!form) {
+                    throw new Error(step === 1 ? 'no download form (file removed?)' : 'download form disappeared');
+                }
+
+                const wait = countdownSeconds($);
+                if (wait > 0) await sleep(wait * 1000 + 500);
+
+                const response = await hostHttp.post(pageUrl, new URLSearchParams(form).toString(), {
+                    headers: {
+                        'Content-Type': 'application/x-www-form-urlencoded',
+                        'Referer': pageUrl
+                    },
+                    maxRedirects: 0,
+                    validateStatus: (status) => status >= 200 && status < 400
+                });
+
+                const location = response.headers.location;
+                if (location) return { url: new URL(location, pageUrl).href };
+                data = response.data;
+            }
+            throw new Error(`still no file after ${MAX_STEPS} steps`);
+        },
+    };
+}
@@ -0,0 +1,288 @@
+import axios from 'axios';
+import https from 'https';
+import fs from 'fs/promises';
+import path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+
+// Download servers often have misconfigured certs
+const httpsAgent = new https.Agent({ rejectUnauthorized: false });
+const USER_AGENT = 'Mozilla/5.0';
+
+// Don't bother splitting into parallel chunks below this size per chunk
+const MIN_CHUNK_BYTES = 8 * 1024 * 1024;
+
+export interface DownloadOptions {
+    signal?: AbortSignal;
+    /** Automatic retries after a dropped connection, each resuming where the last one stopped */
+    retries?: number;
+    /** Retry n waits n * retryDelayMs */
+    retryDelayMs?: number;
+    /** Fetch in this many parallel ranged requests when the server supports ranges */
+    chunks?: number;
+    /** Treat a connection that delivers no data for this long as dropped */
+    idleTimeoutMs?: number;
+    onProgress?: (downloadedBytes: number, totalBytes: number) => void;
+}
+
+export interface DownloadResult {
+    totalBytes: number;
+    /** Bytes that were already on disk from an earlier, interrupted attempt */
+    resumedBytes: number;
+}
+
+interface ProbeResult {
+    totalBytes: number;
+    acceptsRanges: boolean;
+}
+
+async function fileSize(filePath: string): Promise<number> {
+    try {
+        return (await fs.stat(filePath)).size;
+    } catch {
+        return 0;
+    }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+}
+
+/**
+ * An HTTP client error, like an expired link's 403 or a removed file's 404. Retrying
+ * won't help; the link itself has to be fetched again.
+ */
+export function isLinkError(error: any): boolean {
+    const status = error?.response?.status;
+    return status >= 400 && status < 500;
+}
+
+/**
+ * Ask for the first byte to learn the size and whether ranges work.
+ * A 206 with Content-Range means the server honours Range requests.
+ */
+async function probe(url: string, signal?: AbortSignal): Promise<ProbeResult> {
+    const response = await axios.get(url, {
+        responseType: 'stream',
+        headers: { 'User-Agent': USER_AGENT, 'Range': 'bytes=0-0' },
+        httpsAgent,
+        signal,
+        validateStatus: (status) => status === 200 || status === 206
+    });
+    (response.data as Readable).destroy();
+
+    if (response.status === 206) {
+        const total = /\/(\d+)$/.exec(response.headers['content-range'] || '')?.[1];
+        return { totalBytes: total ? parseInt(total) : 0, acceptsRanges: !!total };
+    }
+    return { totalBytes: parseInt(response.headers['content-length'] || '0'), acceptsRanges: false };
+}
+
+/**
+ * Probe with the same bounded retries as the download itself. Link errors fail at once.
+ */
+async function probeWithRetries(url: string, options: { retries: number; retryDelayMs: number; signal?: AbortSignal }): Promise<ProbeResult> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await probe(url, options.signal);
+        } catch (error: any) {
+            if (options.signal?.aborted) throw error;
+            if (attempt >= options.retries || isLinkError(error)) throw error;
+
+            console.log(`Download request failed (${error.message}), retrying (retry ${attempt + 1}/${options.retries})`);
+            await sleep(options.retryDelayMs * (attempt + 1), options.signal);
+        }
+    }
+}
+
+/**
+ * Pipe a response body into a file, failing if the connection goes quiet
+ */
+async function writeBody(body: Readable, filePath: string, append: boolean, idleTimeoutMs: number, onData: (bytes: number) => void): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => body.destroy(new Error(`No data for ${idleTimeoutMs / 1000}s`)), idleTimeoutMs);
+    };
+
+    body.on('data', (chunk: Buffer) => {
+        resetTimer();
+        onData(chunk.length);
+    });
+
+    resetTimer();
+    try {
+        await pipeline(body, createWriteStream(filePath, { flags: append ? 'a' : 'w' }));
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Fetch bytes [start, end] of a URL into filePath, resuming from whatever the file
+ * already holds and retrying dropped connections (not link errors). `end` undefined
+ * means "to the end".
+ */
+async function fetchRange(
+    url: string,
+    filePath: string,
+    range: { start: number; end?: number; expectedBytes: number; rangesSupported: boolean },
+    options: Required<Omit<DownloadOptions, 'onProgress' | 'signal' | 'chunks'>> & { signal?: AbortSignal },
+    onData: (bytes: number) => void,
+    onRestart: (discardedBytes: number) => void
+): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+        let have = await fileSize(filePath);
+        if (range.expectedBytes > 0 && have >= range.expectedBytes) return;
+
+        // Without range support there's nothing to resume from
+        if (have > 0 && !range.rangesSupported) {
+            onRestart(have);
+            have = 0;
+        }
+
+        try {
+            const from = range.start + have;
+            const headers: Record<string, string> = { 'User-Agent': USER_AGENT };
+            if (from > 0 || range.end !== undefined) {
+                headers['Range'] = `bytes=${from}-${range.end ?? ''}`;
+            }
+
+            const response = await axios.get(url, {
+                responseType: 'stream',
+                headers,
+                httpsAgent,
+                signal: options.signal,
+                validateStatus: (status) => status === 200 || status === 206
+            });
+
+            let append = have > 0;
+            if (headers['Range'] && response.status === 200) {
+                // Server ignored the range and is sending the whole file from byte 0
+                if (range.start > 0 || range.end !== undefined) {
+                    (response.data as Readable).destroy();
+                    throw new Error('Server stopped honouring range requests');
+                }
+                onRestart(have);
+                append = false;
+            }
+
+            await writeBody(response.data, filePath, append, options.idleTimeoutMs, onData);
+
+            const written = await fileSize(filePath);
+            if (range.expectedBytes > 0 && written < range.expectedBytes) {
+                throw new Error(`Connection closed early (${written}/${range.expectedBytes} bytes)`);
+            }
+            return;
+        } catch (error: any) {
+            if (options.signal?.aborted) throw error;
+            if (attempt >= options.retries || isLinkError(error)) throw error;
+
+            console.log(`Download interrupted (${error.message}), resuming ${filePath} (retry ${attempt + 1}/${options.retries})`);
+            await sleep(options.retryDelayMs * (attempt + 1), options.signal);
+        }
+    }
+}
+
+function chunkFiles(filePath: string, count: number): string[] {
+    return Array.from({ length: count }, (_, i) => `${filePath}.chunk${i}`);
+}
+
+/**
+ * Fetch all chunks in parallel. The first chunk to fail stops the others, and this
+ * only returns once every request has finished writing, so a retry never shares
+ * a chunk file with a request still running from this attempt.
+ */
+async function fetchChunks(url: string, parts: string[], totalBytes: number, settings: Parameters<typeof fetchRange>[3], onData: (bytes: number) => void, onRestart: (bytes: number) => void): Promise<void> {
+    const controller = new AbortController();
+    const stop = () => controller.abort(settings.signal?.reason);
+    if (settings.signal?.aborted) stop();
+    settings.signal?.addEventListener('abort', stop, { once: true });
+
+    const chunkSize = Math.ceil(totalBytes / parts.length);
+    let firstError: unknown;
+    try {
+        const results = await Promise.allSettled(parts.map((part, i) => {
+            const start = i * chunkSize;
+            const end = Math.min(start + chunkSize, totalBytes) - 1;
+            return fetchRange(url, part, { start, end, expectedBytes: end - start + 1, rangesSupported: true }, { ...settings, signal: controller.signal }, onData, onRestart)
+                .catch((error) => {
+                    firstError ??= error;
+                    controller.abort(error);
+                    throw error;
+                });
+        }));
+        if (results.some(r => r.status === 'rejected')) throw firstError;
+    } finally {
+        settings.signal?.removeEventListener('abort', stop);
+    }
+}
+
+async function concatFiles(parts: string[], target: string): Promise<void> {
+    await fs.writeFile(target, '');
+    for (const part of parts) {
+        await pipeline(createReadStream(part), createWriteStream(target, { flags: 'a' }));
+    }
+    await Promise.all(parts.map(p => fs.unlink(p).catch(() => {})));
+}
+
+/**
+ * Download a URL to filePath using HTTP Range requests where the server allows it.
+ * An existing partial file is resumed rather than started over, dropped connections
+ * are retried a bounded number of times, and with `chunks > 1` the file is fetched
+ * in parallel ranged pieces (kept as filePath.chunkN until they are joined).
+ */
+export async function downloadToFile(url: string, filePath: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    const settings = {
+        retries: options.retries ?? 3,
+        retryDelayMs: options.retryDelayMs ?? 2000,
+        idleTimeoutMs: options.idleTimeoutMs ?? 60000,
+        signal: options.signal
+    };
+
+    const { totalBytes, acceptsRanges } = await probeWithRetries(url, settings);
+    const chunkCount = Math.min(options.chunks ?? 1, Math.floor(totalBytes / MIN_CHUNK_BYTES));
+
+    let downloaded = 0;
+    const onData = (bytes: number) => {
+        downloaded += bytes;
+        options.onProgress?.(downloaded, totalBytes);
+    };
+    const onRestart = (discarded: number) => {
+        downloaded -= discarded;
+    };
+
+    if (acceptsRanges && chunkCount > 1) {
+        const parts = chunkFiles(filePath, chunkCount);
+        const resumedBytes = (await Promise.all(parts.map(fileSize))).reduce((a, b) => a + b, 0);
+        downloaded = resumedBytes;
+
+        await fetchChunks(url, parts, totalBytes, settings, onData, onRestart);
+        await concatFiles(parts, filePath);
+        return { totalBytes, resumedBytes };
+    }
+
+    // Counted even without range support so the restart in fetchRange balances it out
+    downloaded = await fileSize(filePath);
+    const resumedBytes = acceptsRanges ? downloaded : 0;
+    await fetchRange(url, filePath, { start: 0, expectedBytes: totalBytes, rangesSupported: acceptsRanges }, settings, onData, onRestart);
+    return { totalBytes: totalBytes || await fileSize(filePath), resumedBytes };
+}
+
+/**
+ * Delete a download's file and any chunk files left by an unfinished chunked download
+ */
+export async function removePartialDownload(filePath: string): Promise<void> {
+    const dir = path.dirname(filePath);
+    const prefix = `${path.basename(filePath)}.chunk`;
+    const files = await fs.readdir(dir).catch(() => [] as string[]);
+    await Promise.all([filePath, ...files.filter(f => f.startsWith(prefix)).map(f => path.join(dir, f))]
+        .map(f => fs.unlink(f).catch(() => {})));
+}
@@ -0,0 +1,173 @@
+import { ffmpeg, ffprobeDimensions } from './tool-runner.js';
+
+export type ImageFormat = 'jpg' | 'png' | 'webp';
+
+/** Largest width or height an edit may produce */
+export const IMAGE_MAX_SIDE = 4096;
+
+/**
+ * What to do to an image: ffmpeg filters applied in order, then the output encoding
+ */
+export interface ImageEdit {
+    filters: string[];
+    /** Left out to keep the original image's format */
+    format?: ImageFormat;
+    /** 1-100, for jpg and webp */
+    quality?: number;
+}
+
+export interface ImageOperation {
+    name: string;
+    aliases?: string[];
+    /** Shown in help, e.g. "resize <px|%>" */
+    usage: string;
+    /** The argument the operation takes, if any. Optional arguments come with a default. */
+    arg?: { pattern: RegExp; default?: string };
+    /** Add the operation to the edit; returns an error message for a bad argument */
+    apply(edit: ImageEdit, arg: string): string | void;
+}
+
+/**
+ * The operations `img` understands, in help order
+ */
+export const IMAGE_OPERATIONS: ImageOperation[] = [
+    {
+        name: 'resize',
+        usage: 'resize <px|%>',
+        arg: { pattern: /^\d+%?$/ },
+        apply(edit, arg) {
+            const value = parseInt(arg, 10);
+            if (arg.endsWith('%')) {
+                if (value < 1 || value > 400) return 'Resize by 1% to 400%.';
+                edit.filters.push(`scale=w='min(iw*${value / 100},${IMAGE_MAX_SIDE})':h=-2:flags=lanczos`);
+            } else {
+                if (value < 16 || value > IMAGE_MAX_SIDE) return `Resize to between 16 and ${IMAGE_MAX_SIDE} pixels.`;
+                edit.filters.push(`scale=w=${value}:h=${value}:force_original_aspect_ratio=decrease:flags=lanczos`);
+            }
+        }
+    },
+    {
+        name: 'compress',
+        usage: 'compress [quality 1-100]',
+        arg: { pattern: /^\d+$/, default: '70' },
+        apply(edit, arg) {
+            const quality = Number(arg);
+            if (quality < 1 || quality > 100) return 'Quality goes from 1 to 100.';
+            edit.quality = quality;
+        }
+    },
+    { name: 'jpg', aliases: ['jpeg'], usage: 'jpg', apply: (edit) => { edit.format = 'jpg'; } },
+    { name: 'png', usage: 'png', apply: (edit) => { edit.format = 'png'; } },
+    { name: 'webp', usage: 'webp', apply: (edit) => { edit.format = 'webp'; } },
+    {
+        name: 'rotate',
+        usage: 'rotate <90|180|270>',
+        arg: { pattern: /^-?\d+$/, default: '90' },
+        apply(edit, arg) {
+            const turns = ((Number(arg) % 360) + 360) % 360;
+            if (turns === 90) edit.filters.push('transpose=clock');
+            else if (turns === 180) edit.filters.push('hflip,vflip');
+            else if (turns === 270) edit.filters.push('transpose=cclock');
+            else if (turns !== 0) return 'Rotate by 90, 180 or 270 degrees.';
+        }
+    },
+    {
+        name: 'crop',
+        usage: 'crop <w:h>',
+        arg: { pattern: /^\d+:\d+$/, default: '1:1' },
+        apply(edit, arg) {
+            const [w, h] = arg.split(':').map(Number);
+            const ratio = w! / h!;
+            if (!isFinite(ratio) || ratio > 10 || ratio < 0.1) return 'Use a ratio like 1:1, 4:5 or 16:9.';
+            // The largest centred area with that ratio
+            edit.filters.push(`crop=w='min(iw,ih*${ratio.toFixed(4)})':h='min(ih,iw/${ratio.toFixed(4)})'`);
+        }
+    },
+    { name: 'gray', aliases: ['grey', 'bw'], usage: 'gray', apply: (edit) => { edit.filters.push('hue=s=0'); } },
+    {
+        name: 'blur',
+        usage: 'blur [strength 1-50]',
+        arg: { pattern: /^\d+$/, default: '10' },
+        apply(edit, arg) {
+            const sigma = Number(arg);
+            if (sigma < 1 || sigma > 50) return 'Blur strength goes from 1 to 50.';
+            edit.filters.push(`gblur=sigma=${sigma}`);
+        }
+    },
+    {
+        name: 'upscale',
+        usage: 'upscale <2x|3x|4x>',
+        arg: { pattern: /^[234]x?$/i, default: '2x' },
+        apply(edit, arg) {
+            const factor = parseInt(arg, 10);
+            edit.filters.push(`scale=w='min(iw*${factor},${IMAGE_MAX_SIDE})':h='min(ih*${factor},${IMAGE_MAX_SIDE})':force_original_aspect_ratio=decrease:flags=lanczos`);
+        }
+    },
+];
+
+export function findImageOperation(name: string): ImageOperation | undefined {
+    const key = name.toLowerCase();
+    return IMAGE_OPERATIONS.find(op => op.name === key || op.aliases?.includes(key));
+}
+
+/**
+ * Turn the words after `img` (e.g. "resize 800 gray jpg") into an edit. Operations run
+ * in the order given; each takes the word after it as its argument when it matches.
+ * Returns an error message for anything it doesn't understand.
+ */
+export function planImageEdit(words: string[]): ImageEdit | string {
+    const edit: ImageEdit = { filters: [] };
+    if (!words.length) return 'Say what to do with the image.';
+
+    for (let i = 0; i < words.length; i++) {
+        const op = findImageOperation(words[i]!);
+        if (!op) return `Unknown operation "${words[i]}".`;
+
+        let arg = op.arg?.default;
+        if (op.arg && words[i + 1] !== undefined && op.arg.pattern.test(words[i + 1]!)) arg = words[++i];
+        if (op.arg && arg === undefined) return `Use ${op.usage}.`;
+
+        const error = op.apply(edit, arg ?? '');
+        if (error) return error;
+    }
+    return edit;
+}
+
+/**
+ * The format an edit writes: the one asked for, otherwise the original's. PNG has no
+ * quality setting, so compressing one without naming a format gives a JPEG.
+ */
+export function outputFormat(edit: ImageEdit, mimetype: string): ImageFormat {
+    if (edit.format) return edit.format;
+    if (mimetype === 'image/webp') return 'webp';
+    if (mimetype === 'image/png' && !edit.quality) return 'png';
+    return 'jpg';
+}
+
+function encoderArgs(format: ImageFormat, quality?: number): string[] {
+    if (format === 'jpg') {
+        // ffmpeg's JPEG scale runs from 2 (best) to 31 (worst)
+        const q = quality ? Math.round(31 - (quality / 100) * 29) : 2;
+        return ['-c:v', 'mjpeg', '-q:v', String(q)];
+    }
+    if (format === 'webp') return ['-c:v', 'libwebp', '-quality', String(quality ?? 90)];
+    return ['-c:v', 'png'];
+}
+
+/**
+ * The filter graph for an edit. JPEG can't hold transparency, so for it the image is
+ * flattened onto white rather than letting ffmpeg turn transparent areas black.
+ */
+export function imageEditFilter(edit: ImageEdit, format: ImageFormat): string {
+    const chain = [...edit.filters, 'format=rgba'].join(',');
+    if (format !== 'jpg') return chain;
+    return `${chain},split[fg][bg];[bg]drawbox=c=white@1:replace=1:t=fill[white];[white][fg]overlay=format=auto,format=yuvj444p`;
+}
+
+/**
+ * Apply an edit with ffmpeg, writing a single image to `outputPath`
+ */
+export async function editImage(inputPath: string, outputPath: string, edit: ImageEdit, format: ImageFormat): Promise<{ width: number; height: number }> {
+    await ffmpeg(['-i', inputPath, '-filter_complex', imageEditFilter(edit, format), '-frames:v', '1', ...encoderArgs(format, edit.quality), outputPath]);
+    return ffprobeDimensions(outputPath);
+}
@@ -0,0 +1,149 @@
+import { config } from './config.js';
+
+export type JobStatus = 'queued' | 'downloading' | 'uploading' | 'done' | 'failed' | 'cancelled';
+
+export interface Job {
+    id: number;
+    chatId: string;
+    /** What the job is fetching, for status messages */
+    label: string;
+    status: JobStatus;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    error?: string;
+    /** Aborted by cancelJob(); pass it to axios and child processes */
+    signal: AbortSignal;
+}
+
+/**
+ * Does the actual work. Runners set `job.status = 'uploading'` once the
+ * transfer is done and throw on failure so the job ends up 'failed'.
+ */
+export type JobRunner = (job: Job) => Promise<void>;
+
+interface QueueEntry {
+    job: Job;
+    controller: AbortController;
+    run: JobRunner;
+}
+
+// How many finished jobs to keep around for status queries
+const FINISHED_HISTORY = 50;
+
+const entries: QueueEntry[] = [];
+let nextId = 1;
+
+export function isActive(job: Job): boolean {
+    return job.status === 'downloading' || job.status === 'uploading';
+}
+
+export function isFinished(job: Job): boolean {
+    return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Add a job to the queue; it starts as soon as the global and per-chat limits allow
+ */
+export function enqueueJob(chatId: string, label: string, run: JobRunner): Job {
+    const controller = new AbortController();
+    const job: Job = {
+        id: nextId++,
+        chatId,
+        label,
+        status: 'queued',
+        createdAt: Date.now(),
+        signal: controller.signal
+    };
+    entries.push({ job, controller, run });
+    pump();
+    return job;
+}
+
+function pump() {
+    let running = entries.filter(e => isActive(e.job));
+
+    for (const entry of entries) {
+        if (running.length >= config.maxConcurrentJobs) break;
+        if (entry.job.status !== 'queued') continue;
+
+        const runningForChat = running.filter(e => e.job.chatId === entry.job.chatId).length;
+        if (runningForChat >= config.maxJobsPerChat) continue;
+
+        running = [...running, entry];
+        void start(entry);
+    }
+}
+
+async function start(entry: QueueEntry) {
+    const { job } = entry;
+    job.status = 'downloading';
+    job.startedAt = Date.now();
+
+    try {
+        await entry.run(job);
+        job.status = 'done';
+    } catch (error: any) {
+        job.status = job.signal.aborted ? 'cancelled' : 'failed';
+        job.error = error?.message || String(error);
+        if (!job.signal.aborted) {
+            console.error(`Job #${job.id} (${job.label}) failed:`, job.error);
+        }
+    } finally {
+        job.finishedAt = Date.now();
+        prune();
+        pump();
+    }
+}
+
+function prune() {
+    const finished = entries.filter(e => isFinished(e.job));
+    for (const entry of finished.slice(0, Math.max(0, finished.length - FINISHED_HISTORY))) {
+        entries.splice(entries.indexOf(entry), 1);
+    }
+}
+
+/**
+ * All known jobs (optionally for one chat), oldest first
+ */
+export function getJobs(chatId?: string): Job[] {
+    return entries
+        .map(e => e.job)
+        .filter(job => !chatId || job.chatId === chatId);
+}
+
+export function getJob(id: number): Job | undefined {
+    return entries.find(e => e.job.id === id)?.job;
+}
+
+/**
+ * 1-based position among all waiting jobs, or 0 when the job isn't waiting
+ */
+export function getQueuePosition(job: Job): number {
+    if (job.status !== 'queued') return 0;
+    const waiting = entries.filter(e => e.job.status === 'queued');
+    return waiting.findIndex(e => e.job === job) + 1;
+}
+
+/**
+ * Cancel a queued or running job. Running jobs are aborted through their signal.
+ */
+export function cancelJob(job: Job): boolean {
+    const entry = entries.find(e => e.job === job);
+    if (!entry || isFinished(job)) return false;
+
+    entry.controller.abort();
+    if (job.status === 'queued') {
+        job.status = 'cancelled';
+        job.finishedAt = Date.now();
+        prune();
+    }
+    return true;
+}
+
+/**
+ * Cancel every queued or running job of a chat, returning how many were stopped
+ */
+export function cancelChatJobs(chatId: string): number {
+    return getJobs(chatId).filter(cancelJob).length;
+}
@@ -0,0 +1,45 @@
+import fs from 'fs/promises';
+import { mkdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { config } from './config.js';
+
+export interface JsonFile<T> {
+    /** In-memory contents; mutate freely, then call save() */
+    data: T;
+    save(): Promise<void>;
+}
+
+/**
+ * Open (or create) a JSON file in the data directory.
+ * Loaded synchronously at startup; saves are serialized and written atomically.
+ */
+export function openJsonFile<T>(fileName: string, fallback: T): JsonFile<T> {
+    const filePath = path.join(config.dataDir, fileName);
+    mkdirSync(config.dataDir, { recursive: true });
+
+    let data = fallback;
+    try {
+        data = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (e: any) {
+        if (e.code !== 'ENOENT') {
+            console.error(`Could not read ${filePath}, starting empty:`, e.message);
+        }
+    }
+
+    let pending: Promise<void> = Promise.resolve();
+
+    const file: JsonFile<T> = {
+        data,
+        save() {
+            pending = pending.then(async () => {
+                const tempPath = `${filePath}.tmp`;
+                await fs.writeFile(tempPath, JSON.stringify(file.data));
+                await fs.rename(tempPath, filePath);
+            }).catch((e) => {
+                console.error(`Failed to save ${filePath}:`, e);
+            });
+            return pending;
+        }
+    };
+    return file;
+}
@@ -1,56 +1,248 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
 import { tmpdir } from 'os';
+import axios from 'axios';
+import { config } from './config.js';
+import { ytDlp, ytDlpError } from './tool-runner.js';
+import type { MediaFile } from './transport.js';
 
-const execPromise = promisify(exec);
+/**
+ * What yt-dlp knows about a link before downloading it
+ */
+export interface MediaInfo {
+    title: string;
+    uploader?: string;
+    /** Seconds */
+    duration?: number;
+    /** YYYY-MM-DD */
+    uploadDate?: string;
+    viewCount?: number;
+    thumbnail?: string;
+    /** The media's own page, after short links and redirects */
+    url: string;
+    /** Size of the chosen format in bytes, when yt-dlp knows or can estimate it */
+    estimatedBytes?: number;
+    isLive?: boolean;
+}
+
+/**
+ * One choice in the `formats` menu
+ */
+export interface MediaFormatOption {
+    kind: MediaFormat;
+    /** yt-dlp format selector that downloads exactly this */
+    selector: string;
+    /** Video height in pixels */
+    height?: number;
+    /** Audio bitrate in kbit/s */
+    abr?: number;
+    estimatedBytes?: number;
+}
+
+export interface MediaDownloadOptions {
+    audioOnly?: boolean;
+    /** yt-dlp format selector, e.g. from a MediaFormatOption; overrides the defaults */
+    format?: string;
+    /** mp3 bitrate in kbit/s for audio, e.g. the picked format's; best VBR when left out */
+    audioBitrate?: number;
+    /** Highest video resolution for the default format */
+    maxHeight?: number;
+    /** Aborting kills the yt-dlp process */
+    signal?: AbortSignal;
+    maxSizeMB?: number;
+    /** Called once the metadata has passed the size and duration checks, before the download starts */
+    onInfo?: (info: MediaInfo) => Promise<void>;
+}
 
 export interface MediaDownloadResult {
     success: boolean;
     filePath?: string;
     title?: string;
     duration?: number;
+    info?: MediaInfo;
     isAudio?: boolean;
     error?: string;
 }
 
-export type Platform = 'youtube' | 'instagram' | 'tiktok' | 'twitter' | 'unknown';
+export type MediaFormat = 'video' | 'audio';
+
+/**
+ * A site yt-dlp downloads from. Supporting another one of yt-dlp's sites means
+ * adding an entry to PLATFORMS.
+ */
+export interface MediaPlatform {
+    id: string;
+    /** Display name, e.g. "YouTube" */
+    name: string;
+    emoji: string;
+    /** Hostnames the site uses; subdomains match too */
+    domains: readonly string[];
+    /** Links to a single post or track, as they appear in a message. Profiles and feeds shouldn't match. */
+    patterns: readonly RegExp[];
+    /** What a plain link downloads */
+    defaultFormat: MediaFormat;
+    /** Whether "audio"/"mp3" can turn a video into audio only */
+    audio: boolean;
+}
+
+/**
+ * Supported sites. Order matters where domains overlap: the more specific entry goes first.
+ */
+export const PLATFORMS = [
+    {
+        id: 'youtube-music',
+        name: 'YouTube Music',
+        emoji: '🎶',
+        domains: ['music.youtube.com'],
+        patterns: [/https?:\/\/music\.youtube\.com\/watch\?v=[\w-]+/i],
+        defaultFormat: 'audio',
+        audio: true,
+    },
+    {
+        id: 'youtube',
+        name: 'YouTube',
+        emoji: '📺',
+        domains: ['youtube.com', 'youtu.be'],
+        patterns: [
+            /https?:\/\/(www\.|m\.)?(youtube\.com\/watch\?v=[\w-]+|youtube\.com\/shorts\/[\w-]+|youtu\.be\/[\w-]+)/i,
+        ],
+        defaultFormat: 'video',
+        audio: true,
+    },
+    {
+        id: 'instagram',
+        name: 'Instagram',
+        emoji: '📸',
+        domains: ['instagram.com', 'instagr.am'],
+        patterns: [/https?:\/\/(www\.)?(instagram\.com|instagr\.am)\/(p|reels?|tv)\/[\w-]+/i],
+        defaultFormat: 'video',
+        audio: true,
+    },
+    {
+        id: 'tiktok',
+        name: 'TikTok',
+        emoji: '🎵',
+        domains: ['tiktok.com'],
+        patterns: [/https?:\/\/(www\.)?(tiktok\.com\/@[\w.]+\/video\/\d+|(vm|vt)\.tiktok\.com\/\w+)/i],
+        defaultFormat: 'video',
+        audio: true,
+    },
+    {
+        id: 'twitter',
+        name: 'Twitter',
+        emoji: '🐦',
+        domains: ['twitter.com', 'x.com'],
+        patterns: [/https?:\/\/(www\.)?(twitter\.com|x\.com)\/\w+\/status\/\d+/i],
+        defaultFormat: 'video',
+        audio: true,
+    },
+    {
+        id: 'facebook',
+        name: 'Facebook',
+        emoji: '📘',
+        domains: ['facebook.com', 'fb.watch'],
+        patterns: [
+            /https?:\/\/(www\.|m\.|web\.)?facebook\.com\/(watch\/?\?v=\d+|reel\/\d+|[\w.-]+\/videos\/[\w.-]+|share\/[rv]\/\w+)/i,
+            /https?:\/\/fb\.watch\/[\w-]+/i,
+        ],
+        defaultFormat: 'video',
+        audio: true,
+    },
+    {
+        id: 'reddit',
+        name: 'Reddit',
+        emoji: '👽',
+        domains: ['reddit.com', 'redd.it'],
+        patterns: [
+            /https?:\/\/(www\.|old\.|new\.)?reddit\.com\/r\/\w+\/(comments|s)\/\w+/i,
+            /https?:\/\/v\.redd\.it\/\w+/i,
+        ],
+        defaultFormat: 'video',
+        audio: true,
+    },
+    {
+        id: 'soundcloud',
+        name: 'SoundCloud',
+        emoji: '☁️',
+        domains: ['soundcloud.com'],
+        patterns: [
+            /https?:\/\/(www\.|m\.)?soundcloud\.com\/[\w-]+\/(?!(sets|tracks|albums|reposts|likes|followers|following)(?![\w-]))[\w-]+/i,
+            /https?:\/\/on\.soundcloud\.com\/\w+/i,
+        ],
+        defaultFormat: 'audio',
+        audio: true,
+    },
+    {
+        id: 'vimeo',
+        name: 'Vimeo',
+        emoji: '🎞️',
+        domains: ['vimeo.com'],
+        patterns: [/https?:\/\/(www\.|player\.)?vimeo\.com\/(video\/)?\d+/i],
+        defaultFormat: 'video',
+        audio: true,
+    },
+    {
+        id: 'pinterest',
+        name: 'Pinterest',
+        emoji: '📌',
+        domains: ['pinterest.com', 'pin.it'],
+        patterns: [/https?:\/\/([a-z]{2}\.|www\.)?pinterest\.com\/pin\/[\w-]+/i, /https?:\/\/pin\.it\/\w+/i],
+        defaultFormat: 'video',
+        audio: false,
+    },
+    {
+        id: 'threads',
+        name: 'Threads',
+        emoji: '🧵',
+        domains: ['threads.net', 'threads.com'],
+        patterns: [/https?:\/\/(www\.)?threads\.(net|com)\/@[\w.]+\/post\/[\w-]+/i],
+        defaultFormat: 'video',
+        audio: true,
+    },
+    {
+        id: 'snapchat',
+        name: 'Snapchat',
+        emoji: '👻',
+        domains: ['snapchat.com'],
+        patterns: [/https?:\/\/(www\.)?snapchat\.com\/spotlight\/[\w-]+/i],
+        defaultFormat: 'video',
+        audio: true,
+    },
+] as const satisfies readonly MediaPlatform[];
+
+export type Platform = (typeof PLATFORMS)[number]['id'] | 'unknown';
+
+export function getPlatform(platform: Platform): MediaPlatform | undefined {
+    return PLATFORMS.find(p => p.id === platform);
+}
 
 /**
  * Detect which platform a URL belongs to
  */
 export function detectPlatform(url: string): Platform {
-    if (/^https?:\/\/(www\.)?(youtube\.com|youtu\.be)\//i.test(url)) return 'youtube';
-    if (/^https?:\/\/(www\.)?(instagram\.com|instagr\.am)\//i.test(url)) return 'instagram';
-    if (/^https?:\/\/(www\.)?(tiktok\.com|vm\.tiktok\.com)\//i.test(url)) return 'tiktok';
-    if (/^https?:\/\/(www\.)?(twitter\.com|x\.com)\//i.test(url)) return 'twitter';
-    return 'unknown';
+    let host: string;
+    try {
+        host = new URL(url).hostname.toLowerCase();
+    } catch {
+        return 'unknown';
+    }
+    const platform = PLATFORMS.find(p => p.domains.some(d => host === d || host.endsWith(`.${d}`)));
+    return platform?.id ?? 'unknown';
 }
 
 /**
- * Extract a supported URL from text
+ * Extract the first supported URL from text
  */
 export function extractMediaUrl(text: string): { url: string; platform: Platform } | null {
-    const urlPatterns = [
-        // YouTube
-        /https?:\/\/(www\.)?(youtube\.com\/watch\?v=[\w-]+|youtu\.be\/[\w-]+)[^\s]*/i,
-        // Instagram
-        /https?:\/\/(www\.)?instagram\.com\/(p|reel|tv)\/[\w-]+[^\s]*/i,
-        // TikTok
-        /https?:\/\/(www\.)?(tiktok\.com\/@[\w.]+\/video\/\d+|vm\.tiktok\.com\/[\w]+)[^\s]*/i,
-        // Twitter/X
-        /https?:\/\/(www\.)?(twitter\.com|x\.com)\/\w+\/status\/\d+[^\s]*/i,
-    ];
-
-    for (const pattern of urlPatterns) {
-        const match = text.match(pattern);
-        if (match) {
-            const url = match[0];
-            return { url, platform: detectPlatform(url) };
+    let first: RegExpMatchArray | undefined;
+    for (const platform of PLATFORMS) {
+        for (const pattern of platform.patterns) {
+            // Keep the rest of the link (query string etc.) up to the next space
+            const match = text.match(new RegExp(`${pattern.source}[^\\s]*`, pattern.flags));
+            if (match && (!first || match.index! < first.index!)) first = match;
         }
     }
-    return null;
+    return first ? { url: first[0], platform: detectPlatform(first[0]) } : null;
 }
 
 /**
@@ -62,7 +254,7 @@ function getFilenameFromUrl(url: string, platform: Platform): string {
     filename = filename.split('?')[0].split('#')[0];
     // If it's just an ID or not meaningful, use platform name
     if (filename.length < 3 || (/^[a-zA-Z0-9_-]+$/.test(filename) && filename.length > 20)) {
-        filename = `${platform.charAt(0).toUpperCase() + platform.slice(1)}_${Date.now()}`;
+        filename = `${(getPlatform(platform)?.name ?? 'Media').replace(/\W+/g, '')}_${Date.now()}`;
     }
     // Remove extension if present
     filename = filename.replace(/\.(mp4|webm|mkv|mp3|m4a)$/i, '');
@@ -71,9 +263,179 @@ function getFilenameFromUrl(url: string, platform: Platform): string {
 }
 
 /**
- * Download media from YouTube, Instagram, TikTok, or Twitter using yt-dlp
+ * A title as a file name: no path separators or characters Windows rejects, at most 100 characters
+ */
+export function safeFileName(title: string): string {
+    return title.replace(/[\\/:*?"<>|\x00-\x1f]+/g, ' ').replace(/\s+/g, ' ').trim().substring(0, 100) || 'download';
+}
+
+/**
+ * "3:45" or "1:02:05"
+ */
+export function formatDuration(seconds: number): string {
+    const s = Math.round(seconds);
+    const mmss = `${Math.floor(s / 60) % 60}:${String(s % 60).padStart(2, '0')}`;
+    return s >= 3600 ? `${Math.floor(s / 3600)}:${mmss.padStart(5, '0')}` : mmss;
+}
+
+/** Default video resolution; 720p keeps sizes manageable */
+export const DEFAULT_MAX_HEIGHT = 720;
+// Audio is converted to mp3 afterwards
+const AUDIO_FORMAT = 'bestaudio/best';
+
+function videoFormat(maxHeight: number): string {
+    return `bestvideo[height<=${maxHeight}]+bestaudio/best[height<=${maxHeight}]/best`;
+}
+
+function formatBytes(format: any, duration?: number): number | undefined {
+    const size = format.filesize ?? format.filesize_approx;
+    if (size) return size;
+    // Bitrate (kbit/s) times length is close enough when no size is given
+    return format.tbr && duration ? Math.round(format.tbr * 125 * duration) : undefined;
+}
+
+/**
+ * Pick the fields we use out of yt-dlp's JSON for a single video
  */
-export async function downloadMedia(url: string, audioOnly: boolean = false): Promise<MediaDownloadResult> {
+export function parseMediaInfo(json: any, url: string): MediaInfo {
+    const duration = typeof json.duration === 'number' ? json.duration : undefined;
+    const parts: any[] = json.requested_formats?.length ? json.requested_formats : [json];
+    const sizes = parts.map(f => formatBytes(f, duration));
+    // Thumbnails are listed worst first; WhatsApp previews JPEGs best
+    const thumbnails: any[] = json.thumbnails || [];
+    const jpeg = [...thumbnails].reverse().find(t => /\.jpe?g(\?|$)/i.test(t.url || ''));
+    const date = /^(\d{4})(\d{2})(\d{2})$/.exec(json.upload_date || '');
+
+    return {
+        title: json.title || json.fulltitle || getFilenameFromUrl(url, detectPlatform(url)),
+        uploader: json.uploader || json.channel || json.creator || undefined,
+        duration,
+        uploadDate: date ? `${date[1]}-${date[2]}-${date[3]}` : undefined,
+        viewCount: typeof json.view_count === 'number' ? json.view_count : undefined,
+        thumbnail: jpeg?.url || json.thumbnail || undefined,
+        url: json.webpage_url || json.original_url || url,
+        estimatedBytes: sizes.every(s => s !== undefined) ? sizes.reduce((a, b) => a! + b!, 0) : undefined,
+        isLive: json.is_live === true || undefined,
+    };
+}
+
+/**
+ * The distinct resolutions (best first) and audio bitrates on offer, one option each.
+ * When a site has no separate audio streams there's a single "audio only" option.
+ */
+export function listFormats(json: any): MediaFormatOption[] {
+    const duration = typeof json.duration === 'number' ? json.duration : undefined;
+    const formats: any[] = json.formats || [];
+    const hasVideo = (f: any) => f.vcodec !== 'none' && typeof f.height === 'number' && f.height > 0;
+    const audioOnly = formats.filter(f => f.vcodec === 'none' && f.acodec && f.acodec !== 'none');
+    const bestAudio = [...audioOnly].sort((a, b) => (b.abr || 0) - (a.abr || 0))[0];
+
+    const byHeight = new Map<number, any>();
+    for (const f of formats.filter(hasVideo)) {
+        const current = byHeight.get(f.height);
+        // mp4 plays everywhere; among equals take the higher bitrate
+        const better = !current
+            || (f.ext === 'mp4' && current.ext !== 'mp4')
+            || (f.ext === current.ext && (f.tbr || 0) > (current.tbr || 0));
+        if (better) byHeight.set(f.height, f);
+    }
+    const video: MediaFormatOption[] = [...byHeight.values()]
+        .sort((a, b) => b.height - a.height)
+        .slice(0, 6)
+        .map(f => {
+            const withAudio = f.acodec && f.acodec !== 'none';
+            const size = formatBytes(f, duration);
+            const audioSize = withAudio || !bestAudio ? 0 : formatBytes(bestAudio, duration);
+            return {
+                kind: 'video',
+                selector: withAudio ? f.format_id : `${f.format_id}+bestaudio/${f.format_id}`,
+                height: f.height,
+                estimatedBytes: size !== undefined && audioSize !== undefined ? size + audioSize : undefined,
+            };
+        });
+
+    const byBitrate = new Map<number, any>();
+    for (const f of audioOnly.filter(f => f.abr > 0)) {
+        const abr = Math.round(f.abr);
+        if (!byBitrate.has(abr)) byBitrate.set(abr, f);
+    }
+    const audio: MediaFormatOption[] = [...byBitrate.entries()]
+        .sort((a, b) => b[0] - a[0])
+        .slice(0, 3)
+        .map(([abr, f]) => ({ kind: 'audio', selector: f.format_id, abr, estimatedBytes: formatBytes(f, duration) }));
+
+    return [...video, ...(audio.length ? audio : [{ kind: 'audio' as const, selector: AUDIO_FORMAT }])];
+}
+
+async function dumpJson(url: string, args: string[], signal?: AbortSignal): Promise<any> {
+    const { stdout } = await ytDlp(['--dump-single-json', '--no-playlist', ...args], url, { timeoutMs: 60000, signal });
+    return JSON.parse(stdout);
+}
+
+/**
+ * Ask yt-dlp about a link (and the size of one format of it) without downloading it
+ */
+export async function fetchMediaInfo(url: string, format: string = videoFormat(DEFAULT_MAX_HEIGHT), signal?: AbortSignal): Promise<MediaInfo> {
+    return parseMediaInfo(await dumpJson(url, ['-f', format], signal), url);
+}
+
+/**
+ * A link's details and every format offered, for the `formats` menu
+ */
+export async function fetchMediaFormats(url: string, signal?: AbortSignal): Promise<{ info: MediaInfo; formats: MediaFormatOption[] }> {
+    const json = await dumpJson(url, [], signal);
+    return { info: parseMediaInfo(json, url), formats: listFormats(json) };
+}
+
+/**
+ * Why a download shouldn't be started, if there's a reason
+ */
+function checkLimits(info: MediaInfo, audioOnly: boolean, maxSizeMB: number): string | undefined {
+    if (info.isLive) return "Live streams can't be downloaded.";
+    if (config.mediaMaxMinutes > 0 && info.duration && info.duration > config.mediaMaxMinutes * 60) {
+        return `Too long (${formatDuration(info.duration)}). The limit is ${config.mediaMaxMinutes} minutes.`;
+    }
+    const sizeMB = (info.estimatedBytes || 0) / (1024 * 1024);
+    if (sizeMB > maxSizeMB) {
+        return `File too large (about ${sizeMB.toFixed(0)}MB). Maximum is ${maxSizeMB}MB.${audioOnly ? '' : ' Try audio-only for music.'}`;
+    }
+}
+
+/**
+ * The thumbnail as an image to send, or null if there's none or it can't be fetched.
+ * Only JPEG and PNG are kept; WhatsApp shows other formats badly.
+ */
+export async function fetchThumbnail(info: MediaInfo): Promise<MediaFile | null> {
+    if (!info.thumbnail) return null;
+    try {
+        const response = await axios.get(info.thumbnail, { responseType: 'arraybuffer', timeout: 15000, maxContentLength: 5 * 1024 * 1024 });
+        const mimetype = String(response.headers['content-type'] || '').split(';')[0]!;
+        if (mimetype !== 'image/jpeg' && mimetype !== 'image/png') return null;
+        return { data: Buffer.from(response.data), mimetype };
+    } catch (error: any) {
+        console.error('Thumbnail fetch failed:', error.message);
+        return null;
+    }
+}
+
+/**
+ * Remove whatever yt-dlp left behind for an output prefix (partial or finished files)
+ */
+async function removeOutputFiles(outputDir: string, baseName: string): Promise<void> {
+    const files = await fs.readdir(outputDir).catch(() => [] as string[]);
+    await Promise.all(files
+        .filter(f => f.startsWith(baseName))
+        .map(f => fs.unlink(path.join(outputDir, f)).catch(() => {})));
+}
+
+/**
+ * Download media from one of the PLATFORMS (or any other site yt-dlp knows) using yt-dlp.
+ * The metadata is fetched first so oversized, overlong and live media are refused
+ * before anything is downloaded.
+ */
+export async function downloadMedia(url: string, options: MediaDownloadOptions = {}): Promise<MediaDownloadResult> {
+    const { audioOnly = false, signal, maxSizeMB = config.maxSendSizeMb } = options;
+    const format = options.format || (audioOnly ? AUDIO_FORMAT : videoFormat(options.maxHeight || DEFAULT_MAX_HEIGHT));
     const outputDir = tmpdir();
     const timestamp = Date.now();
     const platform = detectPlatform(url);
@@ -81,22 +443,23 @@ export async function downloadMedia(url: string, audioOnly: boolean = false): Pr
     const outputTemplate = path.join(outputDir, `${prefix}_${timestamp}.%(ext)s`);
     
     try {
-        // Get title from URL
-        const title = getFilenameFromUrl(url, platform);
-        
-        // Build download command based on options
-        let downloadCmd: string;
-        
-        if (audioOnly) {
-            // Audio only (for YouTube music)
-            downloadCmd = `yt-dlp --no-warnings -x --audio-format mp3 --audio-quality 0 -o "${outputTemplate}" "${url}"`;
-        } else {
-            // Video with reasonable quality (720p max to keep size manageable)
-            downloadCmd = `yt-dlp --no-warnings -f "bestvideo[height<=720]+bestaudio/best[height<=720]/best" --merge-output-format mp4 -o "${outputTemplate}" "${url}"`;
+        const info = await fetchMediaInfo(url, format, signal);
+        const refusal = checkLimits(info, audioOnly, maxSizeMB);
+        if (refusal) {
+            return { success: false, error: refusal, info };
         }
+        await options.onInfo?.(info);
+        const title = info.title;
+        
+        // Build download arguments based on options
+        const audioQuality = options.audioBitrate ? `${options.audioBitrate}K` : '0';
+        const args = audioOnly
+            // Audio only (music, or asked for)
+            ? ['-f', format, '-x', '--audio-format', 'mp3', '--audio-quality', audioQuality, '--no-playlist', '-o', outputTemplate]
+            : ['-f', format, '--merge-output-format', 'mp4', '--no-playlist', '-o', outputTemplate];
         
         console.log(`Downloading from ${platform}: ${url}`);
-        await execPromise(downloadCmd, { timeout: 300000 }); // 5 minute timeout
+        await ytDlp(args, url, { timeoutMs: 300000, signal }); // 5 minute timeout
         
         // Find the downloaded file
         const files = await fs.readdir(outputDir);
@@ -116,9 +479,9 @@ export async function downloadMedia(url: string, audioOnly: boolean = false): Pr
         const stats = await fs.stat(filePath);
         const sizeMB = stats.size / (1024 * 1024);
         
-        if (sizeMB > 64) {
+        if (sizeMB > maxSizeMB) {
             await fs.unlink(filePath);
-            return { success: false, error: `File too large (${sizeMB.toFixed(1)}MB). Maximum is 64MB. Try audio-only for music.` };
+            return { success: false, error: `File too large (${sizeMB.toFixed(1)}MB). Maximum is ${maxSizeMB}MB. Try audio-only for music.` };
         }
         
         console.log(`Downloaded: ${title} (${sizeMB.toFixed(2)}MB)`);
@@ -127,14 +490,27 @@ export async function downloadMedia(url: string, audioOnly: boolean = false): Pr
             success: true,
             filePath,
             title,
+            duration: info.duration,
+            info,
             isAudio: audioOnly
         };
         
     } catch (error: any) {
-        console.error(`${platform} download error:`, error);
-        
-        // Return simple generic error for all failures
-        return { success: false, error: 'Invalid URL or no video found for this link.' };
+        await removeOutputFiles(outputDir, `${prefix}_${timestamp}`);
+
+        if (signal?.aborted) {
+            return { success: false, error: 'Download cancelled' };
+        }
+
+        console.error(`${platform} download error:`, error.message);
+
+        if (error.missing || error.timedOut) {
+            return { success: false, error: error.message };
+        }
+
+        // yt-dlp's own reason where it gave one, a generic message otherwise
+        const reason = ytDlpError(error);
+        return { success: false, error: reason ? `Couldn't download this link: ${reason}` : 'Invalid URL or no video found for this link.' };
     }
 }
 
@@ -148,16 +524,3 @@ export async function cleanupFile(filePath: string): Promise<void> {
         // Ignore cleanup errors
     }
 }
-
-/**
- * Get platform emoji
- */
-export function getPlatformEmoji(platform: Platform): string {
-    switch (platform) {
-        case 'youtube': return '📺';
-        case 'instagram': return '📸';
-        case 'tiktok': return '🎵';
-        case 'twitter': return '🐦';
-        default: return '📥';
-    }
-}
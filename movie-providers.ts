@@ -0,0 +1,143 @@
+import { config } from './config.js';
+import { nkiriProvider } from './nkiri.js';
+import { cached } from './scrape-cache.js';
+
+export interface MovieSearchResult {
+    title: string;
+    url: string;
+    /** Id of the provider that found it */
+    provider?: string;
+}
+
+export interface DownloadLink {
+    label: string;
+    url: string;
+    provider?: string;
+    /** Why the file host page couldn't be turned into a file; `url` is then the page itself */
+    unresolved?: string;
+}
+
+export interface MovieDetails {
+    title: string;
+    url: string;
+    provider: string;
+    description?: string;
+    posterUrl?: string;
+}
+
+/**
+ * A movie/series site. Adding a site means one new module implementing this,
+ * plus an entry in the provider list below.
+ */
+export interface MovieProvider {
+    /** Short id users can type, e.g. "nkiri" in `search nkiri:<query>` */
+    id: string;
+    /** Display name, e.g. "Thenkiri" */
+    name: string;
+    /** One page of results; pages past the last one return an empty list */
+    search(query: string, page?: number): Promise<MovieSearchResult[]>;
+    getLinks(movieUrl: string): Promise<DownloadLink[]>;
+    getDetails(movieUrl: string): Promise<MovieDetails | null>;
+}
+
+const providers = new Map<string, MovieProvider>();
+
+export function registerProvider(provider: MovieProvider): void {
+    if (providers.has(provider.id)) {
+        throw new Error(`Movie provider "${provider.id}" is already registered`);
+    }
+    providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): MovieProvider | undefined {
+    return providers.get(id.toLowerCase());
+}
+
+export function listProviders(): MovieProvider[] {
+    return [...providers.values()];
+}
+
+/**
+ * The provider a result came from. Results saved before providers existed are Nkiri's.
+ */
+export function providerFor(item: { provider?: string }): MovieProvider {
+    const provider = getProvider(item.provider || nkiriProvider.id);
+    if (!provider) throw new Error(`Unknown movie provider "${item.provider}"`);
+    return provider;
+}
+
+/**
+ * Split "nkiri:the office" into a provider and the query. Without a known
+ * provider prefix the whole text is the query and every provider is searched.
+ */
+export function parseProviderQuery(text: string): { provider?: MovieProvider; query: string } {
+    const match = /^(\w+):\s*(.*)$/.exec(text.trim());
+    const provider = match?.[1] ? getProvider(match[1]) : undefined;
+    return provider ? { provider, query: match![2]!.trim() } : { query: text.trim() };
+}
+
+function normalizeTitle(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Does the title contain every word of the filter? Case and punctuation are ignored.
+ */
+export function titleMatches(title: string, filter: string): boolean {
+    const words = normalizeTitle(title).split(' ');
+    return normalizeTitle(filter).split(' ').every(w => words.some(t => t.includes(w)));
+}
+
+/**
+ * Append the results not already in the list (same URL or title). Returns how many were added.
+ */
+export function mergeResults(list: MovieSearchResult[], incoming: MovieSearchResult[]): number {
+    const seen = new Set(list.flatMap(r => [r.url, normalizeTitle(r.title)]));
+    let added = 0;
+    for (const result of incoming) {
+        const keys = [result.url, normalizeTitle(result.title)];
+        if (keys.some(k => seen.has(k))) continue;
+        keys.forEach(k => seen.add(k));
+        list.push(result);
+        added++;
+    }
+    return added;
+}
+
+/**
+ * Search one provider, or all of them with results merged in provider order and
+ * de-duplicated by URL and title. A failing provider doesn't sink the others.
+ */
+export async function searchMovies(query: string, only?: MovieProvider, page = 1): Promise<MovieSearchResult[]> {
+    const targets = only ? [only] : listProviders();
+    const settled = await Promise.allSettled(targets.map(async (provider) => {
+        const results = await cached(`search:${provider.id}:${page}:${query.toLowerCase()}`, config.searchCacheMs,
+            () => provider.search(query, page),
+            { keep: r => r.length > 0 });
+        return results.map(r => ({ ...r, provider: provider.id }));
+    }));
+
+    const merged: MovieSearchResult[] = [];
+    settled.forEach((outcome, i) => {
+        if (outcome.status === 'rejected') {
+            console.error(`Search failed on ${targets[i]!.name}:`, outcome.reason);
+            return;
+        }
+        mergeResults(merged, outcome.value);
+    });
+    return merged;
+}
+
+/**
+ * Download links for a result, tagged with its provider. Served from the cache
+ * unless `fresh` is set; resolved file URLs expire, hence the short LINK_CACHE_MINUTES.
+ */
+export async function getMovieLinks(movie: { url: string; provider?: string }, options: { fresh?: boolean } = {}): Promise<DownloadLink[]> {
+    const provider = providerFor(movie);
+    const links = await cached(`links:${provider.id}:${movie.url}`, config.linkCacheMs,
+        () => provider.getLinks(movie.url),
+        { fresh: options.fresh, keep: l => l.length > 0 });
+    return links.map(l => ({ ...l, provider: provider.id }));
+}
+
+registerProvider(nkiriProvider);
@@ -2,25 +2,21 @@ import axios from 'axios';
 import https from 'https';
 import * as cheerio from 'cheerio';
 import urlencode from 'urlencode';
+import { config } from './config.js';
+import { findResolver, resolveLink } from './host-resolvers.js';
+import type { DownloadLink, MovieDetails, MovieProvider, MovieSearchResult } from './movie-providers.js';
+
+export type { DownloadLink, MovieSearchResult } from './movie-providers.js';
 
 // Globally disable SSL verification for this scraper since download servers often have misconfigured certs
 const axiosInstance = axios.create({
     httpsAgent: new https.Agent({ rejectUnauthorized: false })
 });
 
-export interface MovieSearchResult {
-    title: string;
-    url: string;
-}
-
-export interface DownloadLink {
-    label: string;
-    url: string;
-}
-
-export async function searchNkiri(query: string): Promise<MovieSearchResult[]> {
-    const searchUrl = `https://thenkiri.com/?s=${urlencode(query)}&post_type=post`;
-    console.log(`Searching Nkiri for: ${query}`);
+export async function searchNkiri(query: string, page = 1): Promise<MovieSearchResult[]> {
+    let searchUrl = `${config.nkiriBaseUrl.replace(/\/$/, '')}/?s=${urlencode(query)}&post_type=post`;
+    if (page > 1) searchUrl += `&paged=${page}`;
+    console.log(`Searching Nkiri for: ${query}${page > 1 ? ` (page ${page})` : ''}`);
 
     try {
         const { data } = await axiosInstance.get(searchUrl, {
@@ -45,6 +41,8 @@ export async function searchNkiri(query: string): Promise<MovieSearchResult[]> {
 
         return results;
     } catch (error) {
+        // WordPress answers 404 for a results page past the last one
+        if (page > 1 && axios.isAxiosError(error) && error.response?.status === 404) return [];
         console.error('Error searching Nkiri:', error);
         return [];
     }
@@ -56,89 +54,78 @@ export async function getDownloadLinks(movieUrl: string): Promise<DownloadLink[]
             headers: { 'User-Agent': 'Mozilla/5.0' }
         });
         const $ = cheerio.load(data);
-        const finalLinks: DownloadLink[] = [];
+        const found: DownloadLink[] = [];
 
-        // 1. Check for specific download buttons/links on the page
-        // Often series have links inside tables or listed as specific buttons
+        // 1. Any link to a file host we know, whether in tables, lists or buttons
         $('a').each((_, element) => {
             const $a = $(element);
             const href = $a.attr('href');
-            const text = $a.text().trim();
+            if (!href || !findResolver(href)) return;
 
-            if (href && (href.includes('nkiserv.com') || href.includes('ds2.nkiserv.com'))) {
-                finalLinks.push({ label: text || 'Direct Link', url: href });
-            }
+            // Buttons keep their label (e.g. "Download Episode 1") in an inner span
+            const label = $a.find('.elementor-button-text').text().trim() || $a.text().trim();
+            found.push({ label, url: href });
         });
 
-        // 2. Check for redirect buttons
-        const downloadPages: { label: string, url: string }[] = [];
+        // 2. Download buttons pointing at hosts nobody handles yet, so they show up as such
         $('section.elementor-section a.elementor-button').each((_, element) => {
             const $a = $(element);
             const href = $a.attr('href');
-            // Try to find the label (e.g. "Download Episode 1")
             const label = $a.find('.elementor-button-text').text().trim() || $a.text().trim();
-            
-            if (href && (href.includes('downloadwella.com') || href.includes('wetafiles.com'))) {
-                downloadPages.push({ label, url: href });
-            }
-        });
 
-        for (const page of downloadPages) {
-            console.log(`Processing redirect: ${page.url}`);
-            try {
-                const { data: pageData } = await axiosInstance.get(page.url);
-                const $page = cheerio.load(pageData);
-                
-                const formData: Record<string, string> = {};
-                $page('form[name="F1"] input[type="hidden"]').each((_, input) => {
-                    const name = $page(input).attr('name');
-                    const value = $page(input).attr('value') || '';
-                    if (name) formData[name] = value;
-                });
-
-                if (Object.keys(formData).length > 0) {
-                    const postRes = await axiosInstance.post(page.url, new URLSearchParams(formData).toString(), {
-                        headers: {
-                            'Content-Type': 'application/x-www-form-urlencoded',
-                            'Referer': page.url
-                        },
-                        maxRedirects: 0,
-                        validateStatus: (status) => status >= 200 && status < 400
-                    });
-
-                    const location = postRes.headers.location;
-                    if (location) {
-                        let label = page.label;
-                        // If label is too generic, try to get it from the final URL filename
-                        if (label.toLowerCase().includes('direct link') || label.toLowerCase() === 'download') {
-                            const filename = location.split('/').pop()?.split('?')[0] || '';
-                            if (filename) label = filename;
-                        }
-                        finalLinks.push({ label, url: location });
-                    }
-                }
-            } catch (postError: any) {
-                if (postError.response && postError.response.status === 302 && postError.response.headers.location) {
-                    const location = postError.response.headers.location;
-                    let label = page.label;
-                    if (label.toLowerCase().includes('direct link') || label.toLowerCase() === 'download') {
-                        const filename = location.split('/').pop()?.split('?')[0] || '';
-                        if (filename) label = filename;
-                    }
-                    finalLinks.push({ label, url: location });
-                }
+            if (href && /^https?:/i.test(href) && !findResolver(href) && /download|episode|direct/i.test(label)) {
+                found.push({ label, url: href });
             }
-        }
+        });
 
-        // De-duplicate by URL
+        // De-duplicate by URL before resolving anything
         const seen = new Set();
-        return finalLinks.filter(item => {
+        const unique = found.filter(item => {
             const duplicate = seen.has(item.url);
             seen.add(item.url);
             return !duplicate;
         });
+
+        const finalLinks: DownloadLink[] = [];
+        for (const link of unique) {
+            const resolved = await resolveLink(link);
+            if (resolved.label === '') resolved.label = 'Direct Link';
+            finalLinks.push(resolved);
+        }
+        return finalLinks;
     } catch (error) {
         console.error('Error getting download links:', error);
         return [];
     }
 }
+
+export async function getNkiriDetails(movieUrl: string): Promise<MovieDetails | null> {
+    try {
+        const { data } = await axiosInstance.get(movieUrl, {
+            headers: { 'User-Agent': 'Mozilla/5.0' }
+        });
+        const $ = cheerio.load(data);
+
+        const title = $('meta[property="og:title"]').attr('content') || $('h1.entry-title').text().trim();
+        if (!title) return null;
+
+        return {
+            title: title.replace(/\s*[-|]\s*Thenkiri.*$/i, '').trim(),
+            url: movieUrl,
+            provider: 'nkiri',
+            description: $('meta[property="og:description"]').attr('content')?.trim() || undefined,
+            posterUrl: $('meta[property="og:image"]').attr('content') || undefined
+        };
+    } catch (error) {
+        console.error('Error getting Nkiri details:', error);
+        return null;
+    }
+}
+
+export const nkiriProvider: MovieProvider = {
+    id: 'nkiri',
+    name: 'Thenkiri',
+    search: searchNkiri,
+    getLinks: getDownloadLinks,
+    getDetails: getNkiriDetails,
+};
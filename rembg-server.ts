@@ -0,0 +1,157 @@
+import axios from 'axios';
+import { spawn } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config.js';
+import { isToolAvailable, probeTools, stderrTail } from './tool-runner.js';
+
+export interface RembgServerTimings {
+    /** Between health checks of a ready server */
+    healthIntervalMs: number;
+    /** Between checks while waiting for the server to come up */
+    startupCheckMs: number;
+    /** First wait before restarting a server that exited; doubles until it comes up again */
+    minRestartDelayMs: number;
+    maxRestartDelayMs: number;
+}
+
+const DEFAULT_TIMINGS: RembgServerTimings = {
+    healthIntervalMs: 30 * 1000,
+    startupCheckMs: 5 * 1000,
+    minRestartDelayMs: 5 * 1000,
+    maxRestartDelayMs: 5 * 60 * 1000,
+};
+/** Failed health checks in a row before a running server is restarted */
+const MAX_MISSED_CHECKS = 3;
+
+// The server is on localhost; never send it through a proxy
+const local = axios.create({ proxy: false });
+
+let timings = DEFAULT_TIMINGS;
+let child: ChildProcess | undefined;
+let ready = false;
+let missedChecks = 0;
+let restartDelay = DEFAULT_TIMINGS.minRestartDelayMs;
+let healthTimer: ReturnType<typeof setTimeout> | undefined;
+let restartTimer: ReturnType<typeof setTimeout> | undefined;
+let recentStderr = '';
+
+function baseUrl(): string {
+    return `http://127.0.0.1:${config.rembgServerPort}`;
+}
+
+/**
+ * Any HTTP answer means the server is up; the model is loaded before it starts listening
+ */
+async function isHealthy(): Promise<boolean> {
+    try {
+        await local.get(`${baseUrl()}/docs`, { timeout: 5000, validateStatus: status => status < 500 });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function scheduleCheck(delayMs: number): void {
+    clearTimeout(healthTimer);
+    healthTimer = setTimeout(checkHealth, delayMs);
+    healthTimer.unref();
+}
+
+async function checkHealth(): Promise<void> {
+    if (!child) return;
+
+    if (await isHealthy()) {
+        if (!ready) console.log(`🧠 rembg server ready on port ${config.rembgServerPort}`);
+        ready = true;
+        missedChecks = 0;
+        restartDelay = timings.minRestartDelayMs;
+    } else if (ready && ++missedChecks >= MAX_MISSED_CHECKS) {
+        console.error(`rembg server missed ${missedChecks} health checks, restarting it`);
+        ready = false;
+        child.kill('SIGKILL');
+        return; // the exit handler restarts it
+    }
+    scheduleCheck(ready ? timings.healthIntervalMs : timings.startupCheckMs);
+}
+
+function spawnServer(): void {
+    recentStderr = '';
+    const server = spawn('rembg', ['s', '--host', '127.0.0.1', '--port', String(config.rembgServerPort)], {
+        stdio: ['ignore', 'ignore', 'pipe']
+    });
+    child = server;
+    console.log(`Starting rembg server on port ${config.rembgServerPort}...`);
+
+    server.stderr!.on('data', (chunk: Buffer) => {
+        recentStderr = (recentStderr + chunk.toString()).slice(-4096);
+    });
+    server.on('error', (error) => console.error('rembg server could not start:', error.message));
+    server.on('exit', (code, signal) => {
+        if (child !== server) return;
+        child = undefined;
+        ready = false;
+        clearTimeout(healthTimer);
+
+        console.error(`rembg server exited (${signal || `code ${code}`})${recentStderr ? `: ${stderrTail(recentStderr)}` : ''}; restarting in ${restartDelay / 1000}s`);
+        restartTimer = setTimeout(spawnServer, restartDelay);
+        restartTimer.unref();
+        restartDelay = Math.min(restartDelay * 2, timings.maxRestartDelayMs);
+    });
+
+    scheduleCheck(timings.startupCheckMs);
+}
+
+/**
+ * Keep a local `rembg s` running when REMBG_SERVER_PORT is set, so the model stays
+ * loaded between images. It is health-checked and restarted (with backoff) if it dies.
+ */
+export async function startRembgServer(options: Partial<RembgServerTimings> = {}): Promise<void> {
+    if (config.rembgServerPort <= 0 || child) return;
+
+    await probeTools();
+    if (!isToolAvailable('rembg')) {
+        console.log('rembg server not started: rembg is not installed');
+        return;
+    }
+
+    timings = { ...DEFAULT_TIMINGS, ...options };
+    restartDelay = timings.minRestartDelayMs;
+    spawnServer();
+    process.once('exit', stopRembgServer);
+}
+
+/**
+ * Stop the server for good: no more health checks or restarts
+ */
+export function stopRembgServer(): void {
+    clearTimeout(healthTimer);
+    clearTimeout(restartTimer);
+    const server = child;
+    // Cleared first so the exit handler doesn't restart it
+    child = undefined;
+    ready = false;
+    server?.kill();
+}
+
+export function isRembgServerReady(): boolean {
+    return ready;
+}
+
+/**
+ * Remove an image's background through the running server. Throws if the server
+ * fails, so the caller can fall back to the CLI.
+ */
+export async function removeWithServer(inputPath: string, outputPath: string, options: { model?: string; matting?: boolean; timeoutMs: number }): Promise<void> {
+    const form = new FormData();
+    form.append('file', new Blob([await fs.readFile(inputPath)]), path.basename(inputPath));
+    if (options.model) form.append('model', options.model);
+    if (options.matting) form.append('a', 'true');
+
+    const response = await local.post(`${baseUrl()}/api/remove`, form, {
+        responseType: 'arraybuffer',
+        timeout: options.timeoutMs
+    });
+    await fs.writeFile(outputPath, Buffer.from(response.data));
+}
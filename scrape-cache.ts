@@ -0,0 +1,99 @@
+import { openJsonFile } from './json-file.js';
+
+interface CacheEntry {
+    value: unknown;
+    storedAt: number;
+    expiresAt: number;
+}
+
+export interface CacheStats {
+    /** Live entries per kind (the part of the key before the first ":") */
+    kinds: Record<string, number>;
+    entries: number;
+    /** Approximate size on disk */
+    bytes: number;
+    hits: number;
+    misses: number;
+    /** Lookups that joined a fetch already in flight */
+    coalesced: number;
+}
+
+const store = openJsonFile<Record<string, CacheEntry>>('scrape-cache.json', {});
+const inflight = new Map<string, Promise<unknown>>();
+const counters = { hits: 0, misses: 0, coalesced: 0 };
+
+function pruneExpired(now: number = Date.now()): void {
+    for (const [key, entry] of Object.entries(store.data)) {
+        if (now > entry.expiresAt) delete store.data[key];
+    }
+}
+
+pruneExpired();
+
+/**
+ * Return the cached value for `key` if it is younger than `ttlMs`, otherwise run
+ * `fetch` and keep its result. Concurrent lookups of the same key share one fetch.
+ * `fresh` skips the stored value but still refreshes it; `ttlMs <= 0` disables caching.
+ * Values that `keep` rejects (e.g. empty results from a failed scrape) aren't stored.
+ */
+export async function cached<T>(
+    key: string,
+    ttlMs: number,
+    fetch: () => Promise<T>,
+    options: { fresh?: boolean; keep?: (value: T) => boolean } = {}
+): Promise<T> {
+    const entry = store.data[key];
+    if (!options.fresh && ttlMs > 0 && entry && Date.now() <= entry.expiresAt) {
+        counters.hits++;
+        return entry.value as T;
+    }
+
+    const pending = inflight.get(key);
+    if (pending) {
+        counters.coalesced++;
+        return pending as Promise<T>;
+    }
+
+    counters.misses++;
+    const request = (async () => {
+        try {
+            const value = await fetch();
+            if (ttlMs > 0 && (options.keep?.(value) ?? true)) {
+                const now = Date.now();
+                pruneExpired(now);
+                store.data[key] = { value, storedAt: now, expiresAt: now + ttlMs };
+                await store.save();
+            }
+            return value;
+        } finally {
+            inflight.delete(key);
+        }
+    })();
+    inflight.set(key, request);
+    return request;
+}
+
+export function getCacheStats(): CacheStats {
+    pruneExpired();
+    const kinds: Record<string, number> = {};
+    for (const key of Object.keys(store.data)) {
+        const kind = key.split(':')[0]!;
+        kinds[kind] = (kinds[kind] || 0) + 1;
+    }
+    return {
+        kinds,
+        entries: Object.keys(store.data).length,
+        bytes: Buffer.byteLength(JSON.stringify(store.data)),
+        ...counters
+    };
+}
+
+/**
+ * Drop every entry, or only those whose key starts with `prefix`. Returns how many went.
+ */
+export async function flushCache(prefix = ''): Promise<number> {
+    const keys = Object.keys(store.data).filter(k => k.startsWith(prefix));
+    keys.forEach(k => delete store.data[k]);
+    await store.save();
+    return keys.length;
+}
@@ -0,0 +1,69 @@
+import { config } from './config.js';
+import { openJsonFile } from './json-file.js';
+
+/**
+ * A chat's position in a multi-step flow (e.g. search → episode → download method).
+ * Each chat has at most one session; starting a new flow replaces the old one.
+ */
+export interface Session {
+    /** Which flow owns the session, e.g. "movies" */
+    flow: string;
+    state: string;
+    /** Last time the session was written */
+    timestamp: number;
+}
+
+export type SessionLookup<T extends Session> =
+    | { status: 'active'; session: T }
+    | { status: 'expired'; session: T }
+    | { status: 'missing' };
+
+const file = openJsonFile<Record<string, Session>>('sessions.json', {});
+
+export function isExpired(session: Session, now: number = Date.now()): boolean {
+    return now - session.timestamp > config.sessionTtlMs;
+}
+
+// Drop anything that went stale while the bot was offline
+for (const [chatId, session] of Object.entries(file.data)) {
+    if (isExpired(session)) delete file.data[chatId];
+}
+
+/**
+ * Look up a chat's session for a flow. Expired sessions are removed and
+ * reported once so the caller can tell the user their menu expired.
+ */
+export function getSession<T extends Session>(chatId: string, flow: string): SessionLookup<T> {
+    const session = file.data[chatId] as T | undefined;
+    if (!session || session.flow !== flow) return { status: 'missing' };
+
+    if (isExpired(session)) {
+        delete file.data[chatId];
+        void file.save();
+        return { status: 'expired', session };
+    }
+    return { status: 'active', session };
+}
+
+/**
+ * Is the chat in the middle of any flow's menu?
+ */
+export function hasActiveSession(chatId: string): boolean {
+    const session = file.data[chatId];
+    return !!session && !isExpired(session);
+}
+
+/**
+ * Store a session (new or mutated) and refresh its timestamp
+ */
+export async function saveSession(chatId: string, session: Session): Promise<void> {
+    session.timestamp = Date.now();
+    file.data[chatId] = session;
+    await file.save();
+}
+
+export async function clearSession(chatId: string): Promise<void> {
+    if (!file.data[chatId]) return;
+    delete file.data[chatId];
+    await file.save();
+}
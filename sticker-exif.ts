@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto';
+import type { StickerMetadata } from './transport.js';
+
+interface Chunk {
+    type: string;
+    data: Buffer;
+}
+
+// VP8X feature flags
+const ALPHA_FLAG = 0x10;
+const EXIF_FLAG = 0x08;
+const ANIMATION_FLAG = 0x02;
+
+// The little-endian TIFF header WhatsApp expects, with one tag (0x5741) pointing at the JSON
+const EXIF_HEADER = [0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00, 0x01, 0x00, 0x41, 0x57, 0x07, 0x00, 0x00, 0x00, 0x00, 0x00, 0x16, 0x00, 0x00, 0x00];
+
+function readChunks(webp: Buffer): Chunk[] {
+    if (webp.toString('ascii', 0, 4) !== 'RIFF' || webp.toString('ascii', 8, 12) !== 'WEBP') {
+        throw new Error('Not a WebP file');
+    }
+
+    const chunks: Chunk[] = [];
+    for (let offset = 12; offset + 8 <= webp.length;) {
+        const size = webp.readUInt32LE(offset + 4);
+        chunks.push({ type: webp.toString('ascii', offset, offset + 4), data: webp.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size % 2);
+    }
+    return chunks;
+}
+
+function writeChunks(chunks: Chunk[]): Buffer {
+    const body = Buffer.concat(chunks.flatMap(({ type, data }) => {
+        const header = Buffer.alloc(8);
+        header.write(type, 0, 'ascii');
+        header.writeUInt32LE(data.length, 4);
+        return data.length % 2 ? [header, data, Buffer.alloc(1)] : [header, data];
+    }));
+
+    const riff = Buffer.alloc(12);
+    riff.write('RIFF', 0, 'ascii');
+    riff.writeUInt32LE(body.length + 4, 4);
+    riff.write('WEBP', 8, 'ascii');
+    return Buffer.concat([riff, body]);
+}
+
+/**
+ * Build the extended-format header a simple (VP8 / VP8L only) WebP needs before it can carry EXIF
+ */
+function extendedHeader(image: Chunk): Chunk {
+    let width: number, height: number, alpha = false;
+    if (image.type === 'VP8L') {
+        const bits = image.data.readUInt32LE(1);
+        width = (bits & 0x3fff) + 1;
+        height = ((bits >>> 14) & 0x3fff) + 1;
+        alpha = ((bits >>> 28) & 1) === 1;
+    } else {
+        width = image.data.readUInt16LE(6) & 0x3fff;
+        height = image.data.readUInt16LE(8) & 0x3fff;
+    }
+
+    const data = Buffer.alloc(10);
+    data[0] = alpha ? ALPHA_FLAG : 0;
+    data.writeUIntLE(width - 1, 4, 3);
+    data.writeUIntLE(height - 1, 7, 3);
+    return { type: 'VP8X', data };
+}
+
+function stickerExif(metadata: StickerMetadata): Buffer {
+    const json = Buffer.from(JSON.stringify({
+        'sticker-pack-id': randomUUID(),
+        'sticker-pack-name': metadata.pack,
+        'sticker-pack-publisher': metadata.author,
+        'emojis': ['']
+    }), 'utf8');
+    const header = Buffer.from(EXIF_HEADER);
+    header.writeUInt32LE(json.length, 14);
+    return Buffer.concat([header, json]);
+}
+
+/**
+ * Write the sticker pack name and author into a WebP's EXIF chunk, where WhatsApp
+ * reads them from. Works for static and animated stickers; any old EXIF is replaced.
+ */
+export function setStickerMetadata(webp: Buffer, metadata: StickerMetadata): Buffer {
+    const chunks = readChunks(webp).filter(c => c.type !== 'EXIF');
+
+    if (chunks[0]?.type !== 'VP8X') {
+        const image = chunks.find(c => c.type === 'VP8 ' || c.type === 'VP8L');
+        if (!image) throw new Error('WebP has no image data');
+        chunks.unshift(extendedHeader(image));
+    }
+
+    const header = Buffer.from(chunks[0]!.data);
+    header[0]! |= EXIF_FLAG;
+    chunks[0] = { type: 'VP8X', data: header };
+    chunks.push({ type: 'EXIF', data: stickerExif(metadata) });
+    return writeChunks(chunks);
+}
+
+/**
+ * Pack name and author from a sticker's EXIF, or null when it has none
+ */
+export function readStickerMetadata(webp: Buffer): StickerMetadata | null {
+    const exif = readChunks(webp).find(c => c.type === 'EXIF');
+    if (!exif) return null;
+
+    try {
+        const json = JSON.parse(exif.data.subarray(exif.data.indexOf('{')).toString('utf8'));
+        return { pack: json['sticker-pack-name'] ?? '', author: json['sticker-pack-publisher'] ?? '' };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Does the WebP hold an animation (rather than a single image)?
+ */
+export function isAnimatedWebp(webp: Buffer): boolean {
+    const first = readChunks(webp)[0];
+    return first?.type === 'VP8X' && (first.data[0]! & ANIMATION_FLAG) !== 0;
+}
+
+/**
+ * The first frame of an animated WebP as a standalone still WebP, for tools that
+ * can't decode animations. Returns null if there are no frames.
+ */
+export function extractFirstFrame(webp: Buffer): Buffer | null {
+    const frame = readChunks(webp).find(c => c.type === 'ANMF');
+    if (!frame) return null;
+
+    // 16-byte frame header (offsets, size, duration, flags), then the frame's own chunks
+    const width = frame.data.readUIntLE(6, 3) + 1;
+    const height = frame.data.readUIntLE(9, 3) + 1;
+    const inner = readChunks(Buffer.concat([Buffer.from('RIFF\0\0\0\0WEBP', 'ascii'), frame.data.subarray(16)]));
+    if (!inner.some(c => c.type === 'ALPH')) return writeChunks(inner);
+
+    const header = Buffer.alloc(10);
+    header[0] = ALPHA_FLAG;
+    header.writeUIntLE(width - 1, 4, 3);
+    header.writeUIntLE(height - 1, 7, 3);
+    return writeChunks([{ type: 'VP8X', data: header }, ...inner]);
+}
@@ -0,0 +1,199 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import { drawTextFilters, layoutText, textHeight } from './sticker-text.js';
+import { ffmpeg, ffprobeDuration } from './tool-runner.js';
+
+/**
+ * How an image is fitted into the 512x512 sticker canvas:
+ * fit pads with transparency, crop fills the square, circle and rounded crop then mask the corners
+ */
+export type StickerShape = 'fit' | 'crop' | 'circle' | 'rounded';
+
+export const STICKER_SHAPES: StickerShape[] = ['fit', 'crop', 'circle', 'rounded'];
+
+/** Longest clip an animated sticker may be made from */
+export const ANIMATED_MAX_SECONDS = 10;
+/** WhatsApp refuses animated stickers above this size */
+export const ANIMATED_MAX_BYTES = 500 * 1024;
+
+export interface StickerOptions {
+    shape: StickerShape;
+    animated: boolean;
+    /** Seconds into the video to start from (animated only) */
+    start?: number;
+    /** Seconds of video to use, capped at ANIMATED_MAX_SECONDS (animated only) */
+    duration?: number;
+    /** Meme captions burned in at the top and bottom */
+    captions?: { top?: string; bottom?: string };
+}
+
+export interface StickerResult {
+    success: boolean;
+    error?: string;
+    /** Size of the finished sticker */
+    bytes?: number;
+    /** Set when a longer clip was cut to the maximum length */
+    trimmedTo?: number;
+}
+
+const SIZE = 512;
+const CORNER_RADIUS = 80;
+const MARGIN = 16;
+const CAPTION_BOX = { width: SIZE - 2 * MARGIN, height: 150, maxFontSize: 64, minFontSize: 24 };
+const TEXT_BOX = { width: SIZE - 2 * MARGIN, height: SIZE - 2 * MARGIN, maxFontSize: 160, minFontSize: 28 };
+
+// Tried in order until the animated sticker fits ANIMATED_MAX_BYTES
+const ANIMATED_STEPS = [
+    { quality: 60, fps: 15, size: 512 },
+    { quality: 45, fps: 12, size: 512 },
+    { quality: 35, fps: 10, size: 448 },
+    { quality: 25, fps: 10, size: 384 },
+    { quality: 20, fps: 8, size: 320 },
+    { quality: 10, fps: 6, size: 256 },
+];
+
+// Keep the colour channels and only touch alpha; quoted so ffmpeg doesn't split on the commas
+function alphaMask(keep: string): string {
+    return `geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='if(${keep},alpha(X,Y),0)'`;
+}
+
+/**
+ * The ffmpeg filter chain that turns any frame into a sticker-sized RGBA frame of the
+ * given shape. Content smaller than 512px (to save bytes) is centred on the full canvas.
+ */
+export function stickerFilter(shape: StickerShape, size = SIZE): string {
+    const pad = `pad=${SIZE}:${SIZE}:(ow-iw)/2:(oh-ih)/2:color=#00000000`;
+    if (shape === 'fit') {
+        return `scale=${size}:${size}:force_original_aspect_ratio=decrease,format=rgba,${pad}`;
+    }
+
+    let filter = `scale=${size}:${size}:force_original_aspect_ratio=increase,crop=${size}:${size},format=rgba`;
+    if (shape === 'circle') {
+        filter += `,${alphaMask('lte(hypot(X-W/2,Y-H/2),W/2)')}`;
+    } else if (shape === 'rounded') {
+        // Outside the mask only where both coordinates are in a corner and beyond the corner's arc
+        const r = Math.round(CORNER_RADIUS * size / SIZE);
+        const dx = `max(abs(X-W/2)-(W/2-${r}),0)`;
+        const dy = `max(abs(Y-H/2)-(H/2-${r}),0)`;
+        filter += `,${alphaMask(`lte(hypot(${dx},${dy}),${r})`)}`;
+    }
+    return size < SIZE ? `${filter},${pad}` : filter;
+}
+
+/**
+ * Encode a video or GIF clip, stepping quality, frame rate and size down until it
+ * fits WhatsApp's animated sticker limit
+ */
+async function encodeAnimated(inputPath: string, outputPath: string, options: StickerOptions, overlay: string): Promise<StickerResult> {
+    const total = await ffprobeDuration(inputPath).catch(() => NaN);
+    const start = options.start ?? 0;
+    if (start > 0 && !isNaN(total) && start >= total) {
+        return { success: false, error: `The video is only ${total.toFixed(1)}s long, so it can't start at ${start}s.` };
+    }
+
+    const available = isNaN(total) ? Infinity : total - start;
+    const wanted = Math.min(options.duration ?? available, available);
+    const length = Math.min(wanted, ANIMATED_MAX_SECONDS);
+    // Only a clip known to be longer (or asked for longer) counts as trimmed
+    const trimmedTo = isFinite(wanted) && wanted > ANIMATED_MAX_SECONDS ? ANIMATED_MAX_SECONDS : undefined;
+
+    let smallest = Infinity;
+    for (const step of ANIMATED_STEPS) {
+        await ffmpeg([
+            ...(start > 0 ? ['-ss', String(start)] : []),
+            '-i', inputPath,
+            ...(isFinite(length) ? ['-t', String(length)] : []),
+            '-vcodec', 'libwebp', '-vf', `fps=${step.fps},${stickerFilter(options.shape, step.size)}${overlay}`,
+            '-lossless', '0', '-compression_level', '6', '-q:v', String(step.quality),
+            '-loop', '0', '-preset', 'default', '-an', '-vsync', '0', outputPath
+        ]);
+
+        const { size } = await fs.stat(outputPath);
+        if (size <= ANIMATED_MAX_BYTES) return { success: true, bytes: size, trimmedTo };
+        smallest = Math.min(smallest, size);
+        console.log(`Animated sticker ${Math.round(size / 1024)}KB at q${step.quality}/${step.fps}fps/${step.size}px, trying smaller`);
+    }
+
+    await fs.unlink(outputPath).catch(() => {});
+    return {
+        success: false,
+        error: `Even at the lowest quality this clip makes a ${Math.round(smallest / 1024)}KB sticker, over WhatsApp's ${ANIMATED_MAX_BYTES / 1024}KB limit. Try a shorter part, e.g. duration=3.`
+    };
+}
+
+/**
+ * drawtext filters for the meme captions, uppercased and sized to fit a band at the top
+ * and bottom of the canvas. Returns "" when there are none.
+ */
+async function captionOverlay(captions: StickerOptions['captions'], dir: string): Promise<string> {
+    const filters: string[] = [];
+    if (captions?.top) {
+        filters.push(...await drawTextFilters(layoutText(captions.top.toUpperCase(), CAPTION_BOX), String(MARGIN), dir, 'top'));
+    }
+    if (captions?.bottom) {
+        const layout = layoutText(captions.bottom.toUpperCase(), CAPTION_BOX);
+        filters.push(...await drawTextFilters(layout, `h-${textHeight(layout) + MARGIN}`, dir, 'bottom'));
+    }
+    return filters.map(f => `,${f}`).join('');
+}
+
+/**
+ * Encode an image, GIF or video as a WebP sticker. Animated input keeps its
+ * animation (loops forever, no audio) and is shrunk until WhatsApp accepts it.
+ */
+export async function convertToSticker(inputPath: string, outputPath: string, options: StickerOptions): Promise<StickerResult> {
+    const textDir = await fs.mkdtemp(path.join(tmpdir(), 'sticker-text-'));
+    try {
+        const overlay = await captionOverlay(options.captions, textDir);
+        if (options.animated) return await encodeAnimated(inputPath, outputPath, options, overlay);
+
+        await ffmpeg(['-i', inputPath, '-vf', `${stickerFilter(options.shape)}${overlay}`, '-c:v', 'libwebp', '-lossless', '0', '-compression_level', '6', '-q:v', '80', outputPath]);
+        const { size } = await fs.stat(outputPath);
+        return { success: true, bytes: size };
+    } finally {
+        await fs.rm(textDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Render text as a sticker: white with a black outline on a transparent canvas,
+ * wrapped and sized to fill it
+ */
+export async function renderTextSticker(text: string, outputPath: string): Promise<StickerResult> {
+    const textDir = await fs.mkdtemp(path.join(tmpdir(), 'sticker-text-'));
+    try {
+        const layout = layoutText(text, TEXT_BOX);
+        const filters = await drawTextFilters(layout, String(Math.round((SIZE - textHeight(layout)) / 2)), textDir, 'text');
+        await ffmpeg([
+            '-f', 'lavfi', '-i', `color=c=black@0.0:s=${SIZE}x${SIZE}:d=1`,
+            '-vf', ['format=rgba', ...filters].join(','),
+            '-frames:v', '1', '-c:v', 'libwebp', '-lossless', '0', '-compression_level', '6', '-q:v', '80', outputPath
+        ]);
+        const { size } = await fs.stat(outputPath);
+        return { success: true, bytes: size };
+    } finally {
+        await fs.rm(textDir, { recursive: true, force: true });
+    }
+}
+
+export type StickerExportFormat = 'png' | 'mp4' | 'gif';
+
+/**
+ * Turn a sticker back into a normal file: PNG for still stickers, MP4 (on white,
+ * since MP4 has no transparency) or GIF for animated ones. Animated input needs
+ * an ffmpeg recent enough to decode animated WebP.
+ */
+export async function stickerToMedia(inputPath: string, outputPath: string, format: StickerExportFormat): Promise<void> {
+    if (format === 'png') {
+        await ffmpeg(['-i', inputPath, '-frames:v', '1', outputPath]);
+    } else if (format === 'gif') {
+        await ffmpeg(['-i', inputPath, '-filter_complex', 'split[a][b];[a]palettegen=reserve_transparent=1[p];[b][p]paletteuse', '-loop', '0', outputPath]);
+    } else {
+        await ffmpeg([
+            '-i', inputPath,
+            '-filter_complex', 'format=rgba,split[fg][bg];[bg]drawbox=c=white@1:replace=1:t=fill[white];[white][fg]overlay,scale=trunc(iw/2)*2:trunc(ih/2)*2,format=yuv420p',
+            '-c:v', 'libx264', '-movflags', '+faststart', '-an', outputPath
+        ]);
+    }
+}
@@ -0,0 +1,131 @@
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { config } from './config.js';
+
+export interface TextLayout {
+    lines: string[];
+    fontSize: number;
+}
+
+export interface TextBox {
+    width: number;
+    height: number;
+    maxFontSize: number;
+    minFontSize: number;
+}
+
+const FONT_PATH = path.join('assets', 'fonts', 'DejaVuSans-Bold.ttf');
+
+/**
+ * The bundled font under the project root's assets/. The root is found by walking up
+ * from `dir`, since built code runs from deeper down (Baileys/dist/ for the Baileys bot).
+ */
+export function findBundledFont(dir: string): string {
+    for (let current = dir; ; current = path.dirname(current)) {
+        const font = path.join(current, FONT_PATH);
+        if (existsSync(font) || path.dirname(current) === current) return font;
+    }
+}
+
+export const BUNDLED_FONT = findBundledFont(path.dirname(fileURLToPath(import.meta.url)));
+const LINE_HEIGHT = 1.2;
+
+/**
+ * Rough rendered width of a line in the bundled bold font, in pixels. Good enough to
+ * wrap and size text without measuring glyphs.
+ */
+export function estimateWidth(text: string, fontSize: number): number {
+    let ems = 0;
+    for (const char of text) {
+        if (char === ' ') ems += 0.35;
+        else if (/[A-Z0-9MW@%&]/.test(char)) ems += 0.76;
+        else if (/[a-z]/.test(char)) ems += 0.64;
+        else if (/[.,:;'!|il]/.test(char)) ems += 0.38;
+        else ems += 0.8;
+    }
+    return ems * fontSize;
+}
+
+/**
+ * Greedy word wrap; words too long for a line on their own are broken up
+ */
+function wrap(text: string, width: number, fontSize: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+            while (estimateWidth(word, fontSize) > width) {
+                let cut = word.length - 1;
+                while (cut > 1 && estimateWidth(word.slice(0, cut), fontSize) > width) cut--;
+                if (line) lines.push(line);
+                lines.push(word.slice(0, cut));
+                line = '';
+                word = word.slice(cut);
+            }
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && estimateWidth(candidate, fontSize) > width) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        if (line) lines.push(line);
+    }
+    return lines;
+}
+
+/**
+ * Pick the largest font size at which the text fits the box without breaking words.
+ * At the smallest size words are broken and lines that still don't fit are cut with "…".
+ */
+export function layoutText(text: string, box: TextBox): TextLayout {
+    const longestWord = Math.max(0, ...text.split(/\s+/).map(w => estimateWidth(w, 1)));
+
+    for (let fontSize = box.maxFontSize; fontSize > box.minFontSize; fontSize -= 4) {
+        if (longestWord * fontSize > box.width) continue;
+        const lines = wrap(text, box.width, fontSize);
+        if (lines.length * fontSize * LINE_HEIGHT <= box.height) return { lines, fontSize };
+    }
+
+    const fontSize = box.minFontSize;
+    const lines = wrap(text, box.width, fontSize);
+    const maxLines = Math.max(1, Math.floor(box.height / (fontSize * LINE_HEIGHT)));
+    if (lines.length > maxLines) {
+        lines.length = maxLines;
+        lines[maxLines - 1] = `${lines[maxLines - 1]!.replace(/.$/, '')}…`;
+    }
+    return { lines, fontSize };
+}
+
+// Single-quoted so paths with ':' or ',' survive ffmpeg's filter parser
+function quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * drawtext filters for centred, outlined lines of text starting at `top` (an ffmpeg
+ * expression, so "h-200" works). Each line is written to a file in `dir`, which
+ * avoids escaping user text for the filter graph.
+ */
+export async function drawTextFilters(layout: TextLayout, top: string, dir: string, name: string): Promise<string[]> {
+    const font = config.stickerFont || BUNDLED_FONT;
+    const lineHeight = Math.round(layout.fontSize * LINE_HEIGHT);
+    const border = Math.max(2, Math.round(layout.fontSize / 14));
+
+    return Promise.all(layout.lines.map(async (line, i) => {
+        const file = path.join(dir, `${name}-${i}.txt`);
+        await fs.writeFile(file, line);
+        return `drawtext=fontfile=${quote(font)}:textfile=${quote(file)}:expansion=none:fontsize=${layout.fontSize}` +
+            `:fontcolor=white:borderw=${border}:bordercolor=black:x=(w-text_w)/2:y=${top}+${i * lineHeight}`;
+    }));
+}
+
+/**
+ * Height in pixels of a laid-out block of text
+ */
+export function textHeight(layout: TextLayout): number {
+    return layout.lines.length * Math.round(layout.fontSize * LINE_HEIGHT);
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { findCommand, formatHelp, parseArgs, parseCommand, registerCommand, unregisterCommand } from '../command-registry.js';
+import type { Command } from '../command-registry.js';
+
+describe('parseArgs', () => {
+    test('separates words from key=value options', () => {
+        expect(parseArgs('circle pack="My Pack" author=Me')).toEqual({
+            words: ['circle'],
+            options: { pack: 'My Pack', author: 'Me' }
+        });
+    });
+
+    test('accepts curly quotes, empty values and unclosed quotes', () => {
+        expect(parseArgs('pack=“Phone Quotes” author="" top="no end')).toEqual({
+            words: [],
+            options: { pack: 'Phone Quotes', author: '', top: 'no end' }
+        });
+    });
+
+    test('keeps quoted words together', () => {
+        expect(parseArgs('"hello world" again').words).toEqual(['hello world', 'again']);
+    });
+});
+
+describe('parseCommand', () => {
+    const run = async () => {};
+    const watchCommand: Command = { name: 'test-follow', aliases: ['test-watch'], description: '', category: 'general', run };
+    const linkCommand: Command = { name: 'test-formats', description: '', category: 'general', takesLinks: true, run };
+    const searchCommand: Command = { name: 'test-search', description: '', category: 'general', argsRequired: true, run };
+    const testCommands = [watchCommand, linkCommand, searchCommand];
+
+    beforeEach(() => testCommands.forEach(registerCommand));
+    afterEach(() => testCommands.forEach(unregisterCommand));
+
+    test('matches command words and aliases', () => {
+        expect(parseCommand('test-watch 2', '')).toEqual({ name: 'test-watch', args: '2', command: watchCommand });
+        expect(parseCommand('!test-follow', '!')?.command).toBe(watchCommand);
+        expect(parseCommand('test-follow', '!')).toBeNull();
+    });
+
+    test('leaves shared links to the downloader when there is no prefix', () => {
+        expect(parseCommand('test-watch this https://youtu.be/dQw4w9WgXcQ', '')?.command).toBeUndefined();
+        expect(parseCommand('test-formats https://youtu.be/dQw4w9WgXcQ', '')?.command).toBe(linkCommand);
+        expect(parseCommand('!test-watch https://youtu.be/dQw4w9WgXcQ', '!')?.command).toBe(watchCommand);
+    });
+
+    test('takes a bare word followed by chat for chat when there is no prefix', () => {
+        expect(parseCommand('test-follow please', '')?.command).toBeUndefined();
+        expect(parseCommand('test-follow #3', '')?.command).toBe(watchCommand);
+        expect(parseCommand('test-follow "Breaking Bad"', '')?.command).toBe(watchCommand);
+        expect(parseCommand('!test-follow please', '!')?.command).toBe(watchCommand);
+        // Commands that need their arguments take any
+        expect(parseCommand('test-search the office', '')?.command).toBe(searchCommand);
+    });
+});
+
+describe('unregisterCommand', () => {
+    test('removes a command from lookups and the menu', () => {
+        const command: Command = { name: 'test-temporary', aliases: ['test-temp'], description: 'Temporary', category: 'general', run: async () => {} };
+        registerCommand(command);
+        expect(formatHelp('')).toContain('test-temporary');
+
+        unregisterCommand(command);
+        expect(findCommand('test-temporary')).toBeUndefined();
+        expect(findCommand('test-temp')).toBeUndefined();
+        expect(formatHelp('')).not.toContain('test-temporary');
+    });
+});
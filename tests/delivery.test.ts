@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import { config } from '../config.js';
+import { deliverFile } from '../delivery.js';
+import type { OutgoingMedia, Transport } from '../transport.js';
+import { writeFakeTool } from './fake-tool.js';
+
+/**
+ * Stand-ins for ffprobe (every file is 3 minutes long) and ffmpeg's segment muxer,
+ * which cuts the input into as many equal parts as the segment time asks for
+ */
+const FAKE_FFPROBE = `console.log('180.000000');`;
+const FAKE_FFMPEG = `
+const fs = require('fs');
+const args = process.argv.slice(2);
+fs.appendFileSync(__dirname + '/ffmpeg.log', JSON.stringify(args) + '\\n');
+
+const data = fs.readFileSync(args[args.indexOf('-i') + 1]);
+const count = Math.ceil(180 / Number(args[args.indexOf('-segment_time') + 1]));
+const size = Math.ceil(data.length / count);
+for (let i = 0; i < count; i++) {
+    fs.writeFileSync(args[args.length - 1].replace('%03d', String(i).padStart(3, '0')), data.subarray(i * size, (i + 1) * size));
+}
+`;
+
+let dir: string;
+const originalPath = process.env.PATH;
+const originalSplit = config.splitPartSizeMb;
+const originalPort = config.fileServerPort;
+
+function recordingTransport() {
+    const sent: { kind: 'text' | 'media' | 'document'; text?: string; media?: OutgoingMedia }[] = [];
+    const transport = {
+        sendText: async (_chatId: string, text: string) => { sent.push({ kind: 'text', text }); },
+        sendMedia: async (_chatId: string, media: OutgoingMedia) => { sent.push({ kind: 'media', media }); },
+        sendDocument: async (_chatId: string, media: OutgoingMedia) => { sent.push({ kind: 'document', media }); },
+    } as Transport;
+    return { transport, sent };
+}
+
+beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'fake-ffmpeg-'));
+    await writeFakeTool(dir, 'ffprobe', FAKE_FFPROBE);
+    await writeFakeTool(dir, 'ffmpeg', FAKE_FFMPEG);
+    process.env.PATH = `${dir}${path.delimiter}${originalPath}`;
+    config.splitPartSizeMb = 1;
+    config.fileServerPort = 0;
+});
+
+afterAll(async () => {
+    process.env.PATH = originalPath;
+    config.splitPartSizeMb = originalSplit;
+    config.fileServerPort = originalPort;
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('deliverFile', () => {
+    test('cuts oversized audio into parts that play on their own', async () => {
+        const filePath = path.join(dir, `song_${Date.now()}.mp3`);
+        await fs.writeFile(filePath, randomBytes(3 * 1024 * 1024));
+        const { transport, sent } = recordingTransport();
+
+        await deliverFile(transport, 'chat', { filePath, fileName: 'Song.mp3', mimetype: 'audio/mpeg', caption: '🎵 Song' });
+
+        const ffmpegArgs = (await fs.readFile(path.join(dir, 'ffmpeg.log'), 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+        expect(ffmpegArgs[0]).toContain('segment');
+
+        const parts = sent.filter(s => s.kind !== 'text');
+        expect(parts.length).toBeGreaterThan(1);
+        parts.forEach((part, i) => {
+            expect(part.kind).toBe('media');
+            expect(part.media!.mimetype).toBe('audio/mpeg');
+            expect(part.media!.fileName).toBe(`Song.part${i + 1}.mp3`);
+            expect(part.media!.caption).toBe(`🎵 Song\nPart ${i + 1}/${parts.length}`);
+        });
+        // Nothing to join, so no joining instructions
+        expect(sent.some(s => s.text?.includes('must be joined'))).toBe(false);
+
+        await fs.unlink(filePath);
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import { baseTitle, expandSelection, formatLinkLabel, isSelection, listSeasons, parseLink, sortLinks } from '../episode-parser.js';
+
+const link = (label: string, url: string) => parseLink({ label, url });
+
+describe('parseLink', () => {
+    test.each([
+        ['Download Episode 1', 'https://x/Squid.Game.S02E01.720p.NKIRI.COM.mkv', { season: 2, episode: 1, quality: '720p', extension: 'mkv' }],
+        ['Episode 4', 'https://x/Show.s1.e4.1080p.x265.mp4', { season: 1, episode: 4, quality: '1080p', codec: 'x265', extension: 'mp4' }],
+        ['Download', 'https://x/Show%201x05%20480p%20HEVC.mkv', { season: 1, episode: 5, quality: '480p', codec: 'x265', extension: 'mkv' }],
+        ['Season 3 Episode 12', 'https://x/file.php?id=9', { season: 3, episode: 12 }],
+        ['Season 2 - Download Ep 7', 'https://x/f', { season: 2, episode: 7 }],
+        ['Download Episode 9', 'https://x/Show.E09.4K.H.264.webm', { episode: 9, quality: '2160p', codec: 'x264', extension: 'webm' }],
+        ['Download Movie', 'https://x/Oppenheimer.2023.1080p.BluRay.mkv', { quality: '1080p', extension: 'mkv' }],
+    ])('%s (%s)', (label, url, expected) => {
+        const parsed = link(label, url);
+        expect(parsed).toEqual({ label, url, ...expected });
+    });
+
+    test('keeps the provider', () => {
+        expect(parseLink({ label: 'Episode 1', url: 'https://x/a', provider: 'nkiri' }).provider).toBe('nkiri');
+    });
+});
+
+describe('sortLinks', () => {
+    test('orders by season, real episode number and quality, extras last', () => {
+        const sorted = sortLinks([
+            link('Download Episode 10', 'https://x/Show.S01E10.720p.mkv'),
+            link('Trailer', 'https://x/trailer.mp4'),
+            link('Download Episode 2', 'https://x/Show.S01E02.1080p.mkv'),
+            link('Download Episode 2', 'https://x/Show.S01E02.480p.mkv'),
+            link('Download Episode 1', 'https://x/Show.S02E01.720p.mkv'),
+            link('Download Episode 3', 'https://x/Show.S01E03.720p.mkv'),
+        ]);
+
+        expect(sorted.map(l => formatLinkLabel('Show', l))).toEqual([
+            'Show S1 E2 · 480p · mkv',
+            'Show S1 E2 · 1080p · mkv',
+            'Show S1 E3 · 720p · mkv',
+            'Show S1 E10 · 720p · mkv',
+            'Show S2 E1 · 720p · mkv',
+            'Show - Trailer · mp4',
+        ]);
+    });
+
+    test('lists seasons, with unknown ones as 0', () => {
+        expect(listSeasons([
+            link('Episode 1', 'https://x/Show.S02E01.mkv'),
+            link('Episode 1', 'https://x/Show.S01E01.mkv'),
+            link('Bonus', 'https://x/bonus.mkv'),
+        ])).toEqual([0, 1, 2]);
+    });
+});
+
+describe('episode label cleanup', () => {
+    test.each([
+        ['Squid Game Season 2 (Complete) | Korean Drama', 'Squid Game'],
+        ['Squid Game S2', 'Squid Game'],
+        ['The Office | TV Series', 'The Office'],
+        ['Oppenheimer (2023)', 'Oppenheimer (2023)'],
+    ])('baseTitle(%s)', (title, expected) => {
+        expect(baseTitle(title)).toBe(expected);
+    });
+
+    test('episodes use the real episode number, not the list position', () => {
+        const label = formatLinkLabel('Squid Game Season 2 (Complete) | Korean Drama',
+            link('Download Episode 7', 'https://x/Squid.Game.S02E07.720p.NKIRI.COM.mkv'));
+        expect(label).toBe('Squid Game S2 E7 · 720p · mkv');
+    });
+
+    test('non-episode labels lose "download", extensions and separators', () => {
+        expect(formatLinkLabel('Oppenheimer', link('Download Oppenheimer.2023.mkv', 'https://x/f')))
+            .toBe('Oppenheimer 2023');
+        expect(formatLinkLabel('Oppenheimer', link('Download_Bonus-Features', 'https://x/f')))
+            .toBe('Oppenheimer - Bonus Features');
+        expect(formatLinkLabel('Oppenheimer', link('Download', 'https://x/f')))
+            .toBe('Oppenheimer');
+    });
+});
+
+describe('selection replies', () => {
+    test.each(['3', '3-6', ' 3 - 6 ', '1,4,7-9', 'all', 'ALL'])('%s is a selection', (text) => {
+        expect(isSelection(text)).toBe(true);
+    });
+
+    test.each(['hello', '3 6', '-2', 'all of them', ''])('%s is not a selection', (text) => {
+        expect(isSelection(text)).toBe(false);
+    });
+
+    test('expands to zero-based indexes', () => {
+        expect(expandSelection('2', 5)).toEqual([1]);
+        expect(expandSelection('3-6', 8)).toEqual([2, 3, 4, 5]);
+        expect(expandSelection('4-2', 8)).toEqual([1, 2, 3]);
+        expect(expandSelection('1,3-4,3', 8)).toEqual([0, 2, 3]);
+        expect(expandSelection('all', 3)).toEqual([0, 1, 2]);
+    });
+
+    test('rejects numbers outside the menu', () => {
+        expect(expandSelection('0', 5)).toBeNull();
+        expect(expandSelection('4-6', 5)).toBeNull();
+        expect(expandSelection('words', 5)).toBeNull();
+    });
+});
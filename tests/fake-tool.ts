@@ -0,0 +1,12 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Stand in for an external tool: writes `name` to `dir`, running `source` (CommonJS,
+ * with its arguments passed through) under this runtime. Put `dir` on PATH to use it.
+ */
+export async function writeFakeTool(dir: string, name: string, source: string): Promise<void> {
+    const script = path.join(dir, `fake-${name}.cjs`);
+    await fs.writeFile(script, source);
+    await fs.writeFile(path.join(dir, name), `#!/bin/sh\nexec "${process.execPath}" "${script}" "$@"\n`, { mode: 0o755 });
+}
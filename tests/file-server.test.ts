@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import http from 'http';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import type { AddressInfo } from 'net';
+import { config } from '../config.js';
+import { createFileServer, hostFile } from '../file-server.js';
+
+let server: http.Server;
+
+/**
+ * Write a file to host; big enough by default that a download which isn't read
+ * stays in progress
+ */
+async function sourceFile(size = 16 * 1024 * 1024): Promise<{ filePath: string; data: Buffer }> {
+    const data = randomBytes(size);
+    const filePath = path.join(tmpdir(), `hosted_test_${randomBytes(4).toString('hex')}.bin`);
+    await fs.writeFile(filePath, data);
+    return { filePath, data };
+}
+
+async function host(size?: number): Promise<{ url: string; data: Buffer }> {
+    const { filePath, data } = await sourceFile(size);
+    const result = await hostFile(filePath, 'movie.bin');
+    if (!result.success) throw new Error(result.error);
+    return { url: result.url!, data };
+}
+
+async function download(url: string): Promise<{ status: number; body: Buffer }> {
+    const res = await fetch(url);
+    return { status: res.status, body: Buffer.from(await res.arrayBuffer()) };
+}
+
+/**
+ * Start a download and wait for the headers without reading the body
+ */
+function startDownload(url: string): Promise<{ status: number; abort(): void }> {
+    return new Promise((resolve, reject) => {
+        const req = http.get(url, (res) => {
+            res.pause();
+            resolve({ status: res.statusCode!, abort: () => req.destroy() });
+        });
+        req.on('error', (error) => {
+            if (!req.destroyed) reject(error);
+        });
+    });
+}
+
+beforeAll(async () => {
+    server = createFileServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    config.fileServerPort = port;
+    config.fileServerUrl = `http://127.0.0.1:${port}/`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+});
+
+describe('file server', () => {
+    test('serves a hosted file once', async () => {
+        const { url, data } = await host(64 * 1024);
+        expect(url).toStartWith(`${config.fileServerUrl}f/`);
+
+        const first = await download(url);
+        expect(first.status).toBe(200);
+        expect(first.body.equals(data)).toBe(true);
+
+        expect((await download(url)).status).toBe(404);
+    });
+
+    test('refuses a link whose signature or expiry was changed', async () => {
+        const { url } = await host(1024);
+        const [id, expires, signature] = url.split('/f/')[1]!.split('.');
+
+        const tampered = `${signature![0] === 'A' ? 'B' : 'A'}${signature!.slice(1)}`;
+        expect((await download(url.replace(signature!, tampered))).status).toBe(404);
+        expect((await download(url.replace(`${id}.${expires}`, `${id}.${Number(expires) + 3600_000}`))).status).toBe(404);
+
+        // The genuine link still works
+        expect((await download(url)).status).toBe(200);
+    });
+
+    test('refuses an expired link', async () => {
+        const ttl = config.fileServerTtlHours;
+        config.fileServerTtlHours = -1;
+        try {
+            const { url } = await host(1024);
+            expect((await download(url)).status).toBe(404);
+        } finally {
+            config.fileServerTtlHours = ttl;
+        }
+    });
+
+    test('takes the link as soon as a download starts, and hands it back if that one is cut off', async () => {
+        const { url, data } = await host();
+
+        const first = await startDownload(url);
+        expect(first.status).toBe(200);
+        expect((await download(url)).status).toBe(404);
+
+        first.abort();
+        await Bun.sleep(50);
+
+        const retry = await download(url);
+        expect(retry.status).toBe(200);
+        expect(retry.body.equals(data)).toBe(true);
+        expect((await download(url)).status).toBe(404);
+    });
+
+    test('is off without a public URL', async () => {
+        const url = config.fileServerUrl;
+        config.fileServerUrl = '';
+        try {
+            const { filePath } = await sourceFile(1024);
+            const result = await hostFile(filePath, 'movie.bin');
+            expect(result.success).toBe(false);
+            await fs.unlink(filePath);
+        } finally {
+            config.fileServerUrl = url;
+        }
+    });
+});
@@ -0,0 +1,70 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { AddressInfo } from 'net';
+
+export type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse, body: string) => void;
+
+export interface FixtureServer {
+    /** http://127.0.0.1:<port> */
+    url: string;
+    /** Every request seen, as "METHOD host/path?query" */
+    requests: string[];
+    close(): Promise<void>;
+}
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export function readFixture(name: string): string {
+    return fs.readFileSync(path.join(fixturesDir, name), 'utf8');
+}
+
+/**
+ * Respond with a saved HTML page
+ */
+export function html(fixture: string): RouteHandler {
+    return (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=UTF-8' });
+        res.end(readFixture(fixture));
+    };
+}
+
+/**
+ * Local stand-in for the sites the scrapers talk to. Routes are keyed by
+ * "host/path" so it can answer for other hosts too: point `http_proxy` at it and
+ * axios sends requests for http://downloadwella.com/... here. Unknown routes 404.
+ */
+export async function startFixtureServer(routes: Record<string, RouteHandler>): Promise<FixtureServer> {
+    const requests: string[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => body += chunk);
+        req.on('end', () => {
+            // Proxied requests carry an absolute URL, direct ones just the path
+            const url = new URL(req.url || '/', `http://${req.headers.host}`);
+            const host = url.hostname === '127.0.0.1' ? '' : url.hostname;
+            requests.push(`${req.method} ${host}${url.pathname}${url.search}`);
+
+            const handler = routes[`${host}${url.pathname}`];
+            if (!handler) {
+                res.writeHead(404, { 'Content-Type': 'text/plain' });
+                res.end('Not found');
+                return;
+            }
+            handler(req, res, body);
+        });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise((resolve) => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+}
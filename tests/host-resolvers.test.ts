@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { findResolver, registerResolver, resolveLink } from '../host-resolvers.js';
+import { createXFileSharingResolver } from '../hosts/xfilesharing.js';
+import { html, startFixtureServer } from './fixture-server.js';
+import type { FixtureServer } from './fixture-server.js';
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+    registerResolver(createXFileSharingResolver({ id: 'filehost', name: 'Filehost', domains: ['filehost.test'] }));
+
+    server = await startFixtureServer({
+        // Free download button -> countdown page -> page with the direct link
+        'filehost.test/xyz789/Show.S01E01.mkv.html': (req, res, body) => {
+            if (req.method === 'GET') return html('xfs-step1.html')(req, res, '');
+            const op = new URLSearchParams(body).get('op');
+            if (op === 'download1') return html('xfs-countdown.html')(req, res, '');
+            if (op === 'download2') return html('xfs-direct-link.html')(req, res, '');
+            res.writeHead(400);
+            res.end();
+        },
+        'filehost.test/loop/Show.S01E02.mkv.html': html('xfs-step1.html'),
+    });
+
+    process.env.http_proxy = server.url;
+    process.env.no_proxy = '127.0.0.1';
+});
+
+afterAll(async () => {
+    delete process.env.http_proxy;
+    delete process.env.no_proxy;
+    await server.close();
+});
+
+describe('findResolver', () => {
+    test.each([
+        ['https://downloadwella.com/abc/file.html', 'downloadwella'],
+        ['https://www.wetafiles.com/abc/file.html', 'wetafiles'],
+        ['https://ds2.nkiserv.com/series/file.mkv', 'nkiserv'],
+        ['https://notdownloadwella.com/abc', undefined],
+        ['https://example.com/downloadwella.com/abc', undefined],
+        ['not a url', undefined],
+    ])('%s', (url, id) => {
+        expect(findResolver(url)?.id).toBe(id);
+    });
+});
+
+describe('resolveLink', () => {
+    test('walks multi-step forms and waits out the countdown', async () => {
+        const started = Date.now();
+        const link = await resolveLink({ label: 'Download', url: 'http://filehost.test/xyz789/Show.S01E01.mkv.html' });
+
+        expect(link).toEqual({ label: 'Show.S01E01.mkv', url: 'https://s3.filehost.example/files/xyz789/Show.S01E01.mkv' });
+        expect(Date.now() - started).toBeGreaterThan(1000);
+        expect(server.requests.filter(r => r.startsWith('POST filehost.test/xyz789'))).toHaveLength(2);
+    });
+
+    test('keeps a descriptive label', async () => {
+        const link = await resolveLink({ label: 'Download Episode 1', url: 'https://ds2.nkiserv.com/series/Show.S01E01.mkv' });
+        expect(link.label).toBe('Download Episode 1');
+    });
+
+    test('gives up on a host that keeps asking for the same form', async () => {
+        const link = await resolveLink({ label: 'Episode 2', url: 'http://filehost.test/loop/Show.S01E02.mkv.html' });
+        expect(link.unresolved).toBe('Filehost: still no file after 4 steps');
+        expect(link.url).toBe('http://filehost.test/loop/Show.S01E02.mkv.html');
+    });
+
+    test('reports hosts without a resolver', async () => {
+        expect(await resolveLink({ label: 'Episode 3', url: 'https://mega.nz/file/abc' }))
+            .toEqual({ label: 'Episode 3', url: 'https://mega.nz/file/abc', unresolved: 'unsupported host mega.nz' });
+    });
+});
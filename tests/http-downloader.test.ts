@@ -0,0 +1,221 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import type http from 'http';
+import { downloadToFile, isLinkError, removePartialDownload } from '../http-downloader.js';
+import { startFixtureServer } from './fixture-server.js';
+import type { FixtureServer } from './fixture-server.js';
+
+const FILE = randomBytes(256 * 1024);
+// Big enough to be split into 3 chunks of at least 8MB
+const BIG_FILE = randomBytes(24 * 1024 * 1024);
+let server: FixtureServer;
+let dropAfter = 0;
+let failedProbes = 0;
+let expiringRequests = 0;
+const tempFiles: string[] = [];
+
+/**
+ * Serve FILE with Range support. While dropAfter is set, each response is cut
+ * off after that many bytes, like a download server closing the connection.
+ */
+function serveFile(ranges: boolean) {
+    return (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const match = /bytes=(\d+)-(\d*)/.exec(req.headers.range || '');
+        let start = 0;
+        let end = FILE.length - 1;
+        if (ranges && match) {
+            start = parseInt(match[1]!);
+            if (match[2]) end = parseInt(match[2]);
+            res.writeHead(206, {
+                'Content-Range': `bytes ${start}-${end}/${FILE.length}`,
+                'Content-Length': end - start + 1,
+            });
+        } else {
+            res.writeHead(200, { 'Content-Length': FILE.length });
+        }
+
+        const body = FILE.subarray(start, end + 1);
+        if (dropAfter > 0 && body.length > dropAfter) {
+            res.write(body.subarray(0, dropAfter), () => res.destroy());
+            return;
+        }
+        res.end(body);
+    };
+}
+
+/**
+ * BIG_FILE with ranges. Range requests starting past the middle fail with a 500 after
+ * a moment; the rest trickle out slowly, so they are still running when that happens.
+ */
+function serveFailingChunks(req: http.IncomingMessage, res: http.ServerResponse) {
+    const [, from, to] = /bytes=(\d+)-(\d*)/.exec(req.headers.range || '') || [];
+    const start = parseInt(from || '0');
+    const end = to ? parseInt(to) : BIG_FILE.length - 1;
+    if (start > BIG_FILE.length / 2) {
+        setTimeout(() => {
+            res.writeHead(500);
+            res.end();
+        }, 150);
+        return;
+    }
+    res.writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${BIG_FILE.length}`, 'Content-Length': end - start + 1 });
+    let offset = start;
+    const timer = setInterval(() => {
+        if (res.destroyed || offset > end) return clearInterval(timer);
+        res.write(BIG_FILE.subarray(offset, Math.min(offset + 16 * 1024, end + 1)));
+        offset += 16 * 1024;
+    }, 20);
+    res.on('close', () => clearInterval(timer));
+}
+
+function tempFile(): string {
+    const file = path.join(tmpdir(), `http-downloader-test-${randomBytes(6).toString('hex')}.bin`);
+    tempFiles.push(file);
+    return file;
+}
+
+beforeAll(async () => {
+    server = await startFixtureServer({
+        '/ranged.bin': serveFile(true),
+        '/plain.bin': serveFile(false),
+        '/big.bin': (req, res) => {
+            const [, from, to] = /bytes=(\d+)-(\d*)/.exec(req.headers.range || '') || [];
+            const start = parseInt(from || '0');
+            const end = to ? parseInt(to) : BIG_FILE.length - 1;
+            res.writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${BIG_FILE.length}`, 'Content-Length': end - start + 1 });
+            res.end(BIG_FILE.subarray(start, end + 1));
+        },
+        '/failing-chunks.bin': serveFailingChunks,
+        '/flaky.bin': (req, res) => {
+            if (failedProbes < 2) {
+                failedProbes++;
+                res.writeHead(503);
+                res.end();
+                return;
+            }
+            serveFile(true)(req, res);
+        },
+        // Works for the probe and one dropped request, then the link has expired
+        '/expiring.bin': (req, res) => {
+            if (++expiringRequests > 2) {
+                res.writeHead(403);
+                res.end();
+                return;
+            }
+            serveFile(true)(req, res);
+        },
+        '/gone.bin': (_req, res) => {
+            res.writeHead(404);
+            res.end();
+        },
+    });
+});
+
+afterEach(async () => {
+    dropAfter = 0;
+    await Promise.all(tempFiles.splice(0).map(removePartialDownload));
+});
+
+afterAll(async () => {
+    await server.close();
+});
+
+describe('downloadToFile', () => {
+    test('resumes with Range requests after dropped connections', async () => {
+        dropAfter = 100 * 1024;
+        const file = tempFile();
+
+        const result = await downloadToFile(`${server.url}/ranged.bin`, file, { retries: 5, retryDelayMs: 1 });
+
+        expect(result).toEqual({ totalBytes: FILE.length, resumedBytes: 0 });
+        expect((await fs.readFile(file)).equals(FILE)).toBe(true);
+        const resumes = server.requests.filter(r => r === 'GET /ranged.bin').length;
+        expect(resumes).toBeGreaterThan(2);
+    });
+
+    test('picks up a partial file from an earlier attempt', async () => {
+        const file = tempFile();
+        await fs.writeFile(file, FILE.subarray(0, 1000));
+
+        const result = await downloadToFile(`${server.url}/ranged.bin`, file, { retries: 0 });
+
+        expect(result).toEqual({ totalBytes: FILE.length, resumedBytes: 1000 });
+        expect((await fs.readFile(file)).equals(FILE)).toBe(true);
+    });
+
+    test('starts over when the server ignores ranges', async () => {
+        const file = tempFile();
+        await fs.writeFile(file, Buffer.alloc(1000));
+
+        const result = await downloadToFile(`${server.url}/plain.bin`, file, { retries: 0 });
+
+        expect(result.resumedBytes).toBe(0);
+        expect((await fs.readFile(file)).equals(FILE)).toBe(true);
+    });
+
+    test('gives up after the configured retries', async () => {
+        dropAfter = 10 * 1024;
+        const file = tempFile();
+
+        const error = await downloadToFile(`${server.url}/ranged.bin`, file, { retries: 1, retryDelayMs: 1 }).catch(e => e);
+        expect(error).toBeInstanceOf(Error);
+        expect(isLinkError(error)).toBe(false);
+        // The partial file stays for the next attempt
+        expect((await fs.stat(file)).size).toBe(20 * 1024);
+    });
+
+    test('stops resuming once the link has expired', async () => {
+        dropAfter = 10 * 1024;
+        const file = tempFile();
+
+        const error = await downloadToFile(`${server.url}/expiring.bin`, file, { retries: 5, retryDelayMs: 1 }).catch(e => e);
+
+        expect(isLinkError(error)).toBe(true);
+        expect(server.requests.filter(r => r === 'GET /expiring.bin')).toHaveLength(3);
+    });
+
+    test('retries a failing first request, but not a missing file', async () => {
+        const file = tempFile();
+
+        await downloadToFile(`${server.url}/flaky.bin`, file, { retries: 3, retryDelayMs: 1 });
+        expect((await fs.readFile(file)).equals(FILE)).toBe(true);
+
+        await expect(downloadToFile(`${server.url}/gone.bin`, tempFile(), { retries: 3, retryDelayMs: 1 })).rejects.toThrow();
+        expect(server.requests.filter(r => r === 'GET /gone.bin')).toHaveLength(1);
+    });
+});
+
+describe('chunked downloads', () => {
+    test('fetch ranges in parallel and join them', async () => {
+        const file = tempFile();
+
+        const result = await downloadToFile(`${server.url}/big.bin`, file, { chunks: 3, retries: 0 });
+
+        expect(result).toEqual({ totalBytes: BIG_FILE.length, resumedBytes: 0 });
+        expect((await fs.readFile(file)).equals(BIG_FILE)).toBe(true);
+        // The probe, then one request per chunk
+        expect(server.requests.filter(r => r === 'GET /big.bin')).toHaveLength(4);
+        expect((await fs.readdir(tmpdir())).filter(f => f.startsWith(`${path.basename(file)}.chunk`))).toEqual([]);
+    });
+
+    test('stop every chunk when one fails', async () => {
+        const file = tempFile();
+        const started = Date.now();
+
+        await expect(downloadToFile(`${server.url}/failing-chunks.bin`, file, { chunks: 3, retries: 0 })).rejects.toThrow();
+        expect(Date.now() - started).toBeLessThan(2000);
+
+        // Nothing is still writing to the chunk files once the download has failed
+        const chunk = `${file}.chunk0`;
+        const size = (await fs.stat(chunk)).size;
+        await new Promise(resolve => setTimeout(resolve, 200));
+        expect((await fs.stat(chunk)).size).toBe(size);
+        expect(size).toBeLessThan(BIG_FILE.length / 3);
+
+        await removePartialDownload(file);
+        expect((await fs.readdir(tmpdir())).filter(f => f.startsWith(path.basename(file)))).toEqual([]);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { imageEditFilter, outputFormat, planImageEdit } from '../image-tools.js';
+import type { ImageEdit } from '../image-tools.js';
+
+function plan(args: string): ImageEdit {
+    const edit = planImageEdit(args.split(' '));
+    if (typeof edit === 'string') throw new Error(edit);
+    return edit;
+}
+
+describe('planImageEdit', () => {
+    test('chains operations in the order given', () => {
+        const edit = plan('crop 16:9 resize 800 gray');
+        expect(edit.filters).toHaveLength(3);
+        expect(edit.filters[0]).toBe("crop=w='min(iw,ih*1.7778)':h='min(ih,iw/1.7778)'");
+        expect(edit.filters[1]).toBe('scale=w=800:h=800:force_original_aspect_ratio=decrease:flags=lanczos');
+        expect(edit.filters[2]).toBe('hue=s=0');
+    });
+
+    test('fills in defaults for optional arguments', () => {
+        expect(plan('blur').filters).toEqual(['gblur=sigma=10']);
+        expect(plan('rotate').filters).toEqual(['transpose=clock']);
+        expect(plan('rotate -90').filters).toEqual(['transpose=cclock']);
+        expect(plan('compress').quality).toBe(70);
+        expect(plan('upscale 3x').filters[0]).toContain("w='min(iw*3,4096)'");
+    });
+
+    test('explains what it does not understand', () => {
+        expect(planImageEdit([])).toBe('Say what to do with the image.');
+        expect(planImageEdit(['sharpen'])).toBe('Unknown operation "sharpen".');
+        expect(planImageEdit(['resize'])).toBe('Use resize <px|%>.');
+        expect(planImageEdit(['rotate', '45'])).toBe('Rotate by 90, 180 or 270 degrees.');
+        expect(planImageEdit(['compress', '0'])).toBe('Quality goes from 1 to 100.');
+    });
+});
+
+describe('output format', () => {
+    test('keeps the original format unless one is asked for', () => {
+        expect(outputFormat(plan('gray'), 'image/png')).toBe('png');
+        expect(outputFormat(plan('gray webp'), 'image/png')).toBe('webp');
+        expect(outputFormat(plan('compress 50'), 'image/png')).toBe('jpg');
+    });
+
+    test('flattens transparency onto white for JPEG only', () => {
+        expect(imageEditFilter(plan('gray'), 'png')).toBe('hue=s=0,format=rgba');
+        expect(imageEditFilter(plan('gray'), 'jpg')).toContain('drawbox=c=white@1:replace=1:t=fill');
+    });
+});
@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { config } from '../config.js';
+import { cancelChatJobs, cancelJob, enqueueJob, getJob, getJobs, getQueuePosition } from '../job-queue.js';
+import type { Job } from '../job-queue.js';
+
+/**
+ * A runner that keeps going until told to finish or fail, or its job is aborted
+ */
+function fakeRunner() {
+    let settle: ((error?: Error) => void) | undefined;
+    const runner = {
+        started: false,
+        run: (job: Job) => new Promise<void>((resolve, reject) => {
+            runner.started = true;
+            settle = (error) => error ? reject(error) : resolve();
+            job.signal.addEventListener('abort', () => reject(new Error('aborted')));
+        }),
+        async finish(error?: Error) {
+            settle!(error);
+            await Bun.sleep(0);
+        }
+    };
+    return runner;
+}
+
+let chats = 0;
+function newChat(): string {
+    return `chat-${++chats}@c.us`;
+}
+
+afterEach(async () => {
+    // Don't let one test's running jobs hold up the next
+    for (const job of getJobs()) cancelJob(job);
+    await Bun.sleep(0);
+});
+
+describe('job queue', () => {
+    test('runs at most the global limit at once', async () => {
+        const runners = Array.from({ length: config.maxConcurrentJobs + 1 }, fakeRunner);
+        const jobs = runners.map(r => enqueueJob(newChat(), 'movie', r.run));
+
+        expect(runners.map(r => r.started)).toEqual([...runners.slice(1).map(() => true), false]);
+        expect(jobs.at(-1)!.status).toBe('queued');
+
+        await runners[0]!.finish();
+        expect(jobs[0]!.status).toBe('done');
+        expect(runners.at(-1)!.started).toBe(true);
+        expect(jobs.at(-1)!.status).toBe('downloading');
+    });
+
+    test('runs a chat\'s jobs one at a time while other chats go ahead', async () => {
+        const chat = newChat();
+        const first = fakeRunner();
+        const second = fakeRunner();
+        const other = fakeRunner();
+
+        enqueueJob(chat, 'first', first.run);
+        const waiting = enqueueJob(chat, 'second', second.run);
+        enqueueJob(newChat(), 'other', other.run);
+
+        expect(first.started).toBe(true);
+        expect(second.started).toBe(false);
+        expect(other.started).toBe(true);
+
+        await first.finish(new Error('link expired'));
+        expect(getJobs(chat)[0]!.status).toBe('failed');
+        expect(getJobs(chat)[0]!.error).toBe('link expired');
+        expect(second.started).toBe(true);
+        expect(waiting.status).toBe('downloading');
+    });
+
+    test('numbers the waiting jobs in order', () => {
+        const chat = newChat();
+        const running = enqueueJob(chat, 'running', fakeRunner().run);
+        const next = enqueueJob(chat, 'next', fakeRunner().run);
+        const last = enqueueJob(chat, 'last', fakeRunner().run);
+
+        expect(getQueuePosition(running)).toBe(0);
+        expect(getQueuePosition(next)).toBe(1);
+        expect(getQueuePosition(last)).toBe(2);
+
+        cancelJob(next);
+        expect(getQueuePosition(last)).toBe(1);
+    });
+
+    test('cancels a queued job without ever running it', async () => {
+        const chat = newChat();
+        const first = fakeRunner();
+        const second = fakeRunner();
+        enqueueJob(chat, 'first', first.run);
+        const queued = enqueueJob(chat, 'second', second.run);
+
+        expect(cancelJob(queued)).toBe(true);
+        expect(queued.status).toBe('cancelled');
+        expect(queued.signal.aborted).toBe(true);
+
+        await first.finish();
+        expect(second.started).toBe(false);
+        expect(cancelJob(queued)).toBe(false);
+    });
+
+    test('cancels a running job through its signal', async () => {
+        const chat = newChat();
+        const running = enqueueJob(chat, 'running', fakeRunner().run);
+        const next = fakeRunner();
+        enqueueJob(chat, 'next', next.run);
+
+        expect(cancelJob(running)).toBe(true);
+        await Bun.sleep(0);
+
+        expect(running.status).toBe('cancelled');
+        expect(next.started).toBe(true);
+    });
+
+    test('cancels all of a chat\'s jobs', async () => {
+        const chat = newChat();
+        const jobs = [1, 2, 3].map(i => enqueueJob(chat, `job ${i}`, fakeRunner().run));
+        const other = enqueueJob(newChat(), 'other', fakeRunner().run);
+
+        expect(cancelChatJobs(chat)).toBe(3);
+        await Bun.sleep(0);
+
+        expect(jobs.map(j => j.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+        expect(other.status).toBe('downloading');
+    });
+
+    test('forgets the oldest finished jobs', async () => {
+        const jobs: Job[] = [];
+        for (let i = 0; i < 60; i++) {
+            jobs.push(enqueueJob(newChat(), `job ${i}`, async () => {}));
+            await Bun.sleep(0);
+        }
+
+        expect(jobs.every(j => j.status === 'done')).toBe(true);
+        expect(getJobs().length).toBeLessThanOrEqual(50);
+        expect(getJob(jobs[0]!.id)).toBeUndefined();
+        expect(getJob(jobs.at(-1)!.id)).toBe(jobs.at(-1)!);
+    });
+});
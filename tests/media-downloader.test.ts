@@ -0,0 +1,159 @@
+import { describe, expect, test } from 'bun:test';
+import { detectPlatform, extractMediaUrl, formatDuration, listFormats, parseMediaInfo, safeFileName } from '../media-downloader.js';
+import type { Platform } from '../media-downloader.js';
+
+const PLATFORM_URLS: [string, Platform][] = [
+    ['https://www.youtube.com/watch?v=dQw4w9WgXcQ', 'youtube'],
+    ['https://youtube.com/shorts/abc123', 'youtube'],
+    ['https://youtu.be/dQw4w9WgXcQ', 'youtube'],
+    ['https://www.instagram.com/reel/C1a2b3c4d5/', 'instagram'],
+    ['https://instagr.am/p/C1a2b3c4d5/', 'instagram'],
+    ['https://www.tiktok.com/@someone/video/7301234567890123456', 'tiktok'],
+    ['https://vm.tiktok.com/ZMabc123/', 'tiktok'],
+    ['https://twitter.com/someone/status/1234567890', 'twitter'],
+    ['https://x.com/someone/status/1234567890', 'twitter'],
+    ['https://music.youtube.com/watch?v=dQw4w9WgXcQ', 'youtube-music'],
+    ['https://m.facebook.com/watch/?v=123456', 'facebook'],
+    ['https://fb.watch/abcDEF/', 'facebook'],
+    ['https://old.reddit.com/r/videos/comments/abc123/title/', 'reddit'],
+    ['https://v.redd.it/abc123', 'reddit'],
+    ['https://soundcloud.com/artist/track', 'soundcloud'],
+    ['https://vimeo.com/123456789', 'vimeo'],
+    ['https://pin.it/abc123', 'pinterest'],
+    ['https://www.threads.net/@someone/post/C1a2b3', 'threads'],
+    ['https://www.snapchat.com/spotlight/W7_EDlXWTBiXAEEniNoMPwAAYZ', 'snapchat'],
+    ['https://thenkiri.com/squid-game/', 'unknown'],
+    ['https://notyoutube.com/watch?v=abc', 'unknown'],
+];
+
+// [message text, expected url (null = ignored)]
+const MESSAGES: [string, string | null][] = [
+    ['https://www.youtube.com/watch?v=dQw4w9WgXcQ', 'https://www.youtube.com/watch?v=dQw4w9WgXcQ'],
+    ['check this https://youtu.be/dQw4w9WgXcQ?si=xyz audio', 'https://youtu.be/dQw4w9WgXcQ?si=xyz'],
+    ['https://www.instagram.com/p/C1a2b3c4d5/?igsh=abc', 'https://www.instagram.com/p/C1a2b3c4d5/?igsh=abc'],
+    ['https://www.instagram.com/tv/C1a2b3c4d5', 'https://www.instagram.com/tv/C1a2b3c4d5'],
+    ['lol https://www.tiktok.com/@some.one/video/7301234567890123456 mp3', 'https://www.tiktok.com/@some.one/video/7301234567890123456'],
+    ['https://vm.tiktok.com/ZMabc123/', 'https://vm.tiktok.com/ZMabc123/'],
+    ['https://x.com/someone/status/1234567890?s=20', 'https://x.com/someone/status/1234567890?s=20'],
+    ['https://youtube.com/shorts/abc123?feature=share', 'https://youtube.com/shorts/abc123?feature=share'],
+    ['https://music.youtube.com/watch?v=dQw4w9WgXcQ&list=RD', 'https://music.youtube.com/watch?v=dQw4w9WgXcQ&list=RD'],
+    ['https://www.facebook.com/reel/1234567890', 'https://www.facebook.com/reel/1234567890'],
+    ['https://www.facebook.com/someone/videos/1234567890/', 'https://www.facebook.com/someone/videos/1234567890/'],
+    ['https://www.reddit.com/r/videos/comments/abc123/title/', 'https://www.reddit.com/r/videos/comments/abc123/title/'],
+    ['mp3 https://soundcloud.com/artist/some-track', 'https://soundcloud.com/artist/some-track'],
+    ['https://vimeo.com/123456789', 'https://vimeo.com/123456789'],
+    ['https://www.pinterest.com/pin/123456789/', 'https://www.pinterest.com/pin/123456789/'],
+    ['https://www.threads.net/@some.one/post/C1a2b3', 'https://www.threads.net/@some.one/post/C1a2b3'],
+    ['https://www.snapchat.com/spotlight/W7_EDlXWTBiXAEEniNoMPwAAYZ', 'https://www.snapchat.com/spotlight/W7_EDlXWTBiXAEEniNoMPwAAYZ'],
+    // The first link in the message wins
+    ['https://vimeo.com/1 then https://youtu.be/abc', 'https://vimeo.com/1'],
+    // Profiles and channel pages are not downloadable media
+    ['https://www.instagram.com/someone/', null],
+    ['https://twitter.com/someone', null],
+    ['https://www.youtube.com/@channel', null],
+    ['https://soundcloud.com/artist/sets/playlist', null],
+    ['https://www.facebook.com/someone', null],
+    ['https://www.reddit.com/r/videos/', null],
+    ['search squid game', null],
+];
+
+describe('detectPlatform', () => {
+    test.each(PLATFORM_URLS)('%s is %s', (url, platform) => {
+        expect(detectPlatform(url)).toBe(platform);
+    });
+});
+
+describe('extractMediaUrl', () => {
+    test.each(MESSAGES)('%s', (text, url) => {
+        const match = extractMediaUrl(text);
+        if (url === null) {
+            expect(match).toBeNull();
+        } else {
+            expect(match).toEqual({ url, platform: detectPlatform(url) });
+        }
+    });
+});
+
+describe('parseMediaInfo', () => {
+    test('reads the details and adds up merged format sizes', () => {
+        const info = parseMediaInfo({
+            title: 'A Video',
+            uploader: 'Someone',
+            duration: 212,
+            upload_date: '20240312',
+            view_count: 1234567,
+            thumbnail: 'https://i.ytimg.com/vi/x/maxresdefault.webp',
+            thumbnails: [{ url: 'https://i.ytimg.com/vi/x/default.jpg' }, { url: 'https://i.ytimg.com/vi/x/hq.jpg?v=1' }, { url: 'https://i.ytimg.com/vi/x/maxresdefault.webp' }],
+            webpage_url: 'https://www.youtube.com/watch?v=x',
+            requested_formats: [{ filesize: 3000000 }, { filesize_approx: 500000 }],
+        }, 'https://youtu.be/x');
+
+        expect(info).toEqual({
+            title: 'A Video',
+            uploader: 'Someone',
+            duration: 212,
+            uploadDate: '2024-03-12',
+            viewCount: 1234567,
+            thumbnail: 'https://i.ytimg.com/vi/x/hq.jpg?v=1',
+            url: 'https://www.youtube.com/watch?v=x',
+            estimatedBytes: 3500000,
+            isLive: undefined,
+        });
+    });
+
+    test('estimates size from bitrate and falls back to the link for a title', () => {
+        const info = parseMediaInfo({ duration: 10, tbr: 800, is_live: true }, 'https://vimeo.com/123456789');
+        expect(info.estimatedBytes).toBe(1000000);
+        expect(info.isLive).toBe(true);
+        expect(info.url).toBe('https://vimeo.com/123456789');
+        expect(info.title).toBe('123456789');
+        expect(parseMediaInfo({ requested_formats: [{ filesize: 1 }, {}] }, 'https://vimeo.com/1').estimatedBytes).toBeUndefined();
+    });
+});
+
+describe('listFormats', () => {
+    test('offers each resolution once, best first, then audio bitrates', () => {
+        const options = listFormats({
+            duration: 100,
+            formats: [
+                { format_id: 'sb0', ext: 'mhtml', vcodec: 'none', acodec: 'none' },
+                { format_id: '139', ext: 'm4a', vcodec: 'none', acodec: 'mp4a', abr: 48.8, filesize: 600000 },
+                { format_id: '140', ext: 'm4a', vcodec: 'none', acodec: 'mp4a', abr: 129.5, filesize: 1600000 },
+                { format_id: '251', ext: 'webm', vcodec: 'none', acodec: 'opus', abr: 129.7, filesize: 1500000 },
+                { format_id: '18', ext: 'mp4', vcodec: 'avc1', acodec: 'mp4a', height: 360, tbr: 500, filesize: 6000000 },
+                { format_id: '244', ext: 'webm', vcodec: 'vp9', acodec: 'none', height: 480, tbr: 900 },
+                { format_id: '135', ext: 'mp4', vcodec: 'avc1', acodec: 'none', height: 480, tbr: 800, filesize: 9000000 },
+                { format_id: '137', ext: 'mp4', vcodec: 'avc1', acodec: 'none', height: 1080, tbr: 4000 },
+            ],
+        });
+
+        expect(options).toEqual([
+            { kind: 'video', selector: '137+bestaudio/137', height: 1080, estimatedBytes: 51500000 },
+            { kind: 'video', selector: '135+bestaudio/135', height: 480, estimatedBytes: 10500000 },
+            { kind: 'video', selector: '18', height: 360, estimatedBytes: 6000000 },
+            { kind: 'audio', selector: '140', abr: 130, estimatedBytes: 1600000 },
+            { kind: 'audio', selector: '139', abr: 49, estimatedBytes: 600000 },
+        ]);
+    });
+
+    test('falls back to a single audio option when nothing is audio-only', () => {
+        const options = listFormats({ formats: [{ format_id: 'hd', ext: 'mp4', vcodec: 'h264', acodec: 'aac', height: 720 }] });
+        expect(options).toEqual([
+            { kind: 'video', selector: 'hd', height: 720, estimatedBytes: undefined },
+            { kind: 'audio', selector: 'bestaudio/best' },
+        ]);
+    });
+});
+
+describe('formatting', () => {
+    test('formatDuration', () => {
+        expect(formatDuration(5)).toBe('0:05');
+        expect(formatDuration(212)).toBe('3:32');
+        expect(formatDuration(3725)).toBe('1:02:05');
+    });
+
+    test('safeFileName', () => {
+        expect(safeFileName('AC/DC: "Live" | 1991?')).toBe('AC DC Live 1991');
+        expect(safeFileName('///')).toBe('download');
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { getProvider, mergeResults, parseProviderQuery, titleMatches } from '../movie-providers.js';
+import type { MovieSearchResult } from '../movie-providers.js';
+
+describe('parseProviderQuery', () => {
+    test('picks out a known provider prefix', () => {
+        expect(parseProviderQuery('nkiri: the office')).toEqual({ provider: getProvider('nkiri'), query: 'the office' });
+        expect(parseProviderQuery('NKIRI:squid game').query).toBe('squid game');
+    });
+
+    test('leaves unknown prefixes in the query', () => {
+        expect(parseProviderQuery('mission: impossible')).toEqual({ query: 'mission: impossible' });
+    });
+});
+
+describe('mergeResults', () => {
+    test('skips results with a URL or title already in the list', () => {
+        const list: MovieSearchResult[] = [{ title: 'Squid Game Season 2', url: 'https://a/1' }];
+        const added = mergeResults(list, [
+            { title: 'Something else', url: 'https://a/1' },
+            { title: 'squid game: season 2', url: 'https://b/1' },
+            { title: 'Squid Game Season 1', url: 'https://a/2' },
+        ]);
+
+        expect(added).toBe(1);
+        expect(list.map(r => r.url)).toEqual(['https://a/1', 'https://a/2']);
+    });
+});
+
+describe('titleMatches', () => {
+    test.each([
+        ['Squid Game Season 2 (Complete) | Korean Drama', 'korean', true],
+        ['Squid Game Season 2 (Complete) | Korean Drama', 'season 2', true],
+        ['Squid Game: The Challenge', 'challenge', true],
+        ['Squid Game Season 2 (Complete) | Korean Drama', 'challenge', false],
+    ])('%s / %s', (title, filter, expected) => {
+        expect(titleMatches(title, filter)).toBe(expected);
+    });
+});
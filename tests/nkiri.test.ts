@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { config } from '../config.js';
+import * as nkiri from '../nkiri.js';
+import { html, startFixtureServer } from './fixture-server.js';
+import type { FixtureServer } from './fixture-server.js';
+
+let server: FixtureServer;
+
+const DIRECT_URL = 'https://dl.downloadwella.com/d/abc123/Squid.Game.S02E01.720p.NKIRI.COM.mkv';
+const WETA_DIRECT_URL = 'https://dl.wetafiles.com/d/def456/Squid.Game.S02E02.720p.NKIRI.COM.mkv';
+
+beforeAll(async () => {
+    server = await startFixtureServer({
+        '/': (req, res) => {
+            const params = new URL(req.url || '/', 'http://local').searchParams;
+            const page = params.get('paged') || '1';
+            if (page === '2') return html('nkiri-search-page2.html')(req, res, '');
+            if (page !== '1') {
+                // WordPress answers 404 past the last results page
+                res.writeHead(404);
+                res.end();
+                return;
+            }
+            html(params.get('s') === 'nothing here' ? 'downloadwella-removed.html' : 'nkiri-search.html')(req, res, '');
+        },
+        '/squid-game-season-2-complete-korean-drama/': html('nkiri-series.html'),
+
+        // downloadwella: landing page with the F1 form, whose POST answers with a 302 to the file
+        'downloadwella.com/abc123/Squid.Game.S02E01.720p.NKIRI.COM.mkv.html': (req, res, body) => {
+            if (req.method === 'GET') return html('downloadwella-landing.html')(req, res, '');
+            const form = new URLSearchParams(body);
+            if (form.get('op') !== 'download2' || form.get('id') !== 'abc123') {
+                res.writeHead(400);
+                res.end();
+                return;
+            }
+            res.writeHead(302, { Location: DIRECT_URL });
+            res.end();
+        },
+        'wetafiles.com/def456/Squid.Game.S02E02.720p.NKIRI.COM.mkv.html': (req, res) => {
+            if (req.method === 'GET') return html('downloadwella-landing.html')(req, res, '');
+            res.writeHead(302, { Location: WETA_DIRECT_URL });
+            res.end();
+        },
+        // Removed file: no F1 form, so the link is reported as unresolved
+        'downloadwella.com/gone789/Squid.Game.S02E03.720p.NKIRI.COM.mkv.html': html('downloadwella-removed.html'),
+    });
+
+    // Thenkiri itself is reached through the base URL, the file hosts through the proxy
+    config.nkiriBaseUrl = server.url;
+    process.env.http_proxy = server.url;
+    process.env.no_proxy = '127.0.0.1';
+});
+
+afterAll(async () => {
+    delete process.env.http_proxy;
+    delete process.env.no_proxy;
+    await server.close();
+});
+
+describe('searchNkiri', () => {
+    test('reads results from div.search-entry-inner div.thumbnail a', async () => {
+        const results = await nkiri.searchNkiri('squid game');
+
+        expect(results).toEqual([
+            { title: 'Squid Game Season 2 (Complete) | Korean Drama', url: 'https://thenkiri.com/squid-game-season-2-complete-korean-drama/' },
+            // Empty alt text falls back to the entry title
+            { title: 'Squid Game Season 1 (Complete) | Korean Drama', url: 'https://thenkiri.com/squid-game-season-1-complete-korean-drama/' },
+        ]);
+        expect(server.requests).toContain('GET /?s=squid%20game&post_type=post');
+    });
+
+    test('fetches later pages with &paged=N', async () => {
+        const results = await nkiri.searchNkiri('squid game', 2);
+
+        expect(results.map(r => r.title)).toEqual([
+            'Squid Game: The Challenge Season 1 | Reality Show',
+            'Squid Game Season 1 (Complete) | Korean Drama',
+        ]);
+        expect(server.requests).toContain('GET /?s=squid%20game&post_type=post&paged=2');
+    });
+
+    test('returns nothing past the last page', async () => {
+        expect(await nkiri.searchNkiri('squid game', 3)).toEqual([]);
+    });
+
+    test('returns nothing for a page without results', async () => {
+        expect(await nkiri.searchNkiri('nothing here')).toEqual([]);
+    });
+});
+
+describe('getDownloadLinks', () => {
+    test('resolves every known file host and reports the rest', async () => {
+        const links = await nkiri.getDownloadLinks(`${server.url}/squid-game-season-2-complete-korean-drama/`);
+
+        expect(links).toEqual([
+            { label: 'Download Episode 1', url: DIRECT_URL },
+            // A generic button label is replaced with the file name from the Location header
+            { label: 'Squid.Game.S02E02.720p.NKIRI.COM.mkv', url: WETA_DIRECT_URL },
+            {
+                label: 'Download Episode 3',
+                url: 'http://downloadwella.com/gone789/Squid.Game.S02E03.720p.NKIRI.COM.mkv.html',
+                unresolved: 'Downloadwella: no download form (file removed?)',
+            },
+            { label: 'Episode 4', url: 'https://ds2.nkiserv.com/series/Squid.Game.S02E04.720p.NKIRI.COM.mkv' },
+            { label: 'Squid.Game.S02E05.720p.NKIRI.COM.mkv', url: 'https://nkiserv.com/series/Squid.Game.S02E05.720p.NKIRI.COM.mkv' },
+            { label: 'Download Episode 6', url: 'https://mega.nz/file/Xy12AbCd#key', unresolved: 'unsupported host mega.nz' },
+        ]);
+    });
+
+    test('posts the F1 hidden inputs without following the redirect', async () => {
+        await nkiri.getDownloadLinks(`${server.url}/squid-game-season-2-complete-korean-drama/`);
+
+        expect(server.requests).toContain('POST downloadwella.com/abc123/Squid.Game.S02E01.720p.NKIRI.COM.mkv.html');
+        expect(server.requests.some(r => r.includes('dl.downloadwella.com'))).toBe(false);
+    });
+
+    test('returns nothing when the movie page is unreachable', async () => {
+        expect(await nkiri.getDownloadLinks(`${server.url}/no-such-movie/`)).toEqual([]);
+    });
+});
+
+describe('getNkiriDetails', () => {
+    test('reads the Open Graph tags', async () => {
+        const details = await nkiri.getNkiriDetails(`${server.url}/squid-game-season-2-complete-korean-drama/`);
+
+        expect(details).toEqual({
+            title: 'Squid Game Season 2 (Complete) | Korean Drama',
+            url: `${server.url}/squid-game-season-2-complete-korean-drama/`,
+            provider: 'nkiri',
+            description: 'Gi-hun returns to the game with a new plan.',
+            posterUrl: 'https://thenkiri.com/wp-content/uploads/squid-game-2.jpg',
+        });
+    });
+});
@@ -0,0 +1,179 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+import { tmpdir } from 'os';
+import type { AddressInfo } from 'net';
+import { config } from '../config.js';
+import { removeBackground, cleanupFile } from '../background-remover.js';
+import { isRembgServerReady, startRembgServer, stopRembgServer } from '../rembg-server.js';
+import { writeFakeTool } from './fake-tool.js';
+
+/**
+ * Stands in for rembg: `s` serves /docs and /api/remove, `i` is the CLI. What the
+ * server does is read from the "mode" file on every request, and each start and CLI
+ * run is appended to "log".
+ */
+const FAKE_REMBG = `
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const mode = () => fs.readFileSync(path.join(__dirname, 'mode'), 'utf8');
+const log = (line) => fs.appendFileSync(path.join(__dirname, 'log'), line + ' ' + Date.now() + '\\n');
+const [command, ...args] = process.argv.slice(2);
+
+if (command === 'i') {
+    log('cli');
+    fs.writeFileSync(args[args.length - 1], 'cli');
+} else if (command === 's') {
+    log('start');
+    if (mode() === 'exit') {
+        console.error('model failed to load');
+        process.exit(1);
+    }
+    http.createServer((req, res) => {
+        req.resume();
+        req.on('end', () => {
+            if (req.url === '/docs') {
+                res.writeHead(mode() === 'unhealthy' ? 503 : 200);
+                res.end('docs');
+            } else if (req.url === '/api/remove' && mode() !== 'error') {
+                res.writeHead(200);
+                res.end('server');
+            } else {
+                res.writeHead(500);
+                res.end('failed');
+            }
+        });
+    }).listen(Number(args[args.indexOf('--port') + 1]), '127.0.0.1');
+} else {
+    console.log('rembg 2.0.0');
+}
+`;
+
+const TIMINGS = { healthIntervalMs: 50, startupCheckMs: 20, minRestartDelayMs: 100, maxRestartDelayMs: 400 };
+
+let dir: string;
+let input: string;
+const originalPath = process.env.PATH;
+const originalPort = config.rembgServerPort;
+
+async function setMode(mode: 'ok' | 'error' | 'unhealthy' | 'exit'): Promise<void> {
+    await fs.writeFile(path.join(dir, 'mode'), mode);
+}
+
+/**
+ * When each fake server and CLI run started, from the log
+ */
+async function logged(kind: 'start' | 'cli'): Promise<number[]> {
+    const log = await fs.readFile(path.join(dir, 'log'), 'utf8').catch(() => '');
+    return log.split('\n').filter(line => line.startsWith(`${kind} `)).map(line => Number(line.split(' ')[1]));
+}
+
+async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await check())) {
+        if (Date.now() > deadline) throw new Error('timed out waiting');
+        await Bun.sleep(20);
+    }
+}
+
+async function removedBy(): Promise<string> {
+    const result = await removeBackground(input);
+    expect(result.success).toBe(true);
+    const output = await fs.readFile(result.filePath!, 'utf8');
+    await cleanupFile(result.filePath!);
+    return output;
+}
+
+function freePort(): Promise<number> {
+    return new Promise((resolve) => {
+        const server = net.createServer().listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'fake-rembg-'));
+    await writeFakeTool(dir, 'rembg', FAKE_REMBG);
+    input = path.join(dir, 'photo.png');
+    await fs.writeFile(input, 'photo');
+
+    process.env.PATH = `${dir}${path.delimiter}${originalPath}`;
+    config.rembgServerPort = await freePort();
+});
+
+afterEach(async () => {
+    stopRembgServer();
+    await fs.rm(path.join(dir, 'log'), { force: true });
+});
+
+afterAll(async () => {
+    process.env.PATH = originalPath;
+    config.rembgServerPort = originalPort;
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('rembg server', () => {
+    test('takes images once it answers its health check', async () => {
+        await setMode('ok');
+        await startRembgServer(TIMINGS);
+        expect(isRembgServerReady()).toBe(false);
+
+        await waitFor(isRembgServerReady);
+        expect(await removedBy()).toBe('server');
+        expect(await logged('cli')).toEqual([]);
+    });
+
+    test('falls back to the CLI when the server fails an image', async () => {
+        await setMode('ok');
+        await startRembgServer(TIMINGS);
+        await waitFor(isRembgServerReady);
+
+        await setMode('error');
+        expect(await removedBy()).toBe('cli');
+        expect(await logged('cli')).toHaveLength(1);
+    });
+
+    test('uses the CLI until the server is up', async () => {
+        await setMode('unhealthy');
+        await startRembgServer(TIMINGS);
+        await waitFor(async () => (await logged('start')).length === 1);
+
+        expect(await removedBy()).toBe('cli');
+    });
+
+    test('restarts a server that stops answering health checks', async () => {
+        await setMode('ok');
+        await startRembgServer(TIMINGS);
+        await waitFor(isRembgServerReady);
+
+        await setMode('unhealthy');
+        await waitFor(async () => (await logged('start')).length === 2);
+        expect(isRembgServerReady()).toBe(false);
+
+        await setMode('ok');
+        await waitFor(isRembgServerReady);
+    });
+
+    test('waits longer after each failed start, and recovers', async () => {
+        await setMode('exit');
+        await startRembgServer(TIMINGS);
+        await waitFor(async () => (await logged('start')).length === 4);
+
+        const starts = await logged('start');
+        const gaps = starts.slice(1).map((time, i) => time - starts[i]!);
+        expect(gaps[0]).toBeGreaterThanOrEqual(100);
+        expect(gaps[1]).toBeGreaterThanOrEqual(200);
+        expect(gaps[2]).toBeGreaterThanOrEqual(400);
+        expect(gaps[1]!).toBeGreaterThan(gaps[0]!);
+        expect(gaps[2]!).toBeGreaterThan(gaps[1]!);
+
+        await setMode('ok');
+        await waitFor(isRembgServerReady);
+        expect(await removedBy()).toBe('server');
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { parseColor, parseRemoveBgArgs } from '../commands/removebg.js';
+
+describe('parseColor', () => {
+    test('expands hex colours into the form ffmpeg takes', () => {
+        expect(parseColor('#fff')).toBe('0xffffff');
+        expect(parseColor('#1a2B3c')).toBe('0x1a2B3c');
+        expect(parseColor('00ff00')).toBe('0x00ff00');
+    });
+
+    test('passes colour names through in lower case', () => {
+        expect(parseColor('White')).toBe('white');
+    });
+
+    test('rejects anything else', () => {
+        expect(parseColor('#ffff')).toBeNull();
+        expect(parseColor('#ggg')).toBeNull();
+        expect(parseColor('light blue')).toBeNull();
+        expect(parseColor('')).toBeNull();
+    });
+});
+
+describe('parseRemoveBgArgs', () => {
+    test('reads flags and options together', () => {
+        expect(parseRemoveBgArgs('')).toEqual({});
+        expect(parseRemoveBgArgs('color=#fff sticker matting model=isnet-anime')).toEqual({
+            color: '0xffffff',
+            sticker: true,
+            matting: true,
+            model: 'isnet-anime'
+        });
+        expect(parseRemoveBgArgs('Blur')).toEqual({ blur: true });
+        expect(parseRemoveBgArgs('colour=red')).toEqual({ color: 'red' });
+        expect(parseRemoveBgArgs('bg')).toEqual({ replyAsBackground: true });
+        expect(parseRemoveBgArgs('bg=')).toEqual({ replyAsBackground: true });
+    });
+
+    test('explains unknown options, colours and models', () => {
+        expect(parseRemoveBgArgs('sharpen')).toStartWith('❓ Unknown option "sharpen".');
+        expect(parseRemoveBgArgs('size=2')).toStartWith('❓ Unknown option "size=".');
+        expect(parseRemoveBgArgs('color=#12')).toBe('❓ "#12" isn\'t a colour. Use a name (white) or hex (#ffffff).');
+        expect(parseRemoveBgArgs('model=u3net')).toStartWith('❓ Unknown model "u3net".');
+    });
+
+    test('refuses more than one way to fill the background', () => {
+        const error = '❓ Pick one of color=, bg or blur.';
+        expect(parseRemoveBgArgs('color=white blur')).toBe(error);
+        expect(parseRemoveBgArgs('bg blur')).toBe(error);
+        expect(parseRemoveBgArgs('bg color=#000')).toBe(error);
+        // Flags that don't touch the background can go with any of them
+        expect(parseRemoveBgArgs('blur sticker matting')).toEqual({ blur: true, sticker: true, matting: true });
+    });
+});
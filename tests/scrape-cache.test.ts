@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config.js';
+import { cached, flushCache, getCacheStats } from '../scrape-cache.js';
+
+function counter<T>(value: T, delayMs = 0) {
+    const fetcher = async () => {
+        fetcher.calls++;
+        if (delayMs) await new Promise(resolve => setTimeout(resolve, delayMs));
+        return value;
+    };
+    fetcher.calls = 0;
+    return fetcher;
+}
+
+describe('cached', () => {
+    test('serves repeat lookups from the cache until the TTL runs out', async () => {
+        const fetch = counter(['a']);
+
+        expect(await cached('test:ttl', 60_000, fetch)).toEqual(['a']);
+        expect(await cached('test:ttl', 60_000, fetch)).toEqual(['a']);
+        expect(fetch.calls).toBe(1);
+
+        const short = counter(['b']);
+        await cached('test:short', 1, short);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await cached('test:short', 1, short);
+        expect(short.calls).toBe(2);
+    });
+
+    test('shares one fetch between concurrent identical lookups', async () => {
+        const fetch = counter(['c'], 20);
+
+        const results = await Promise.all([1, 2, 3].map(() => cached('test:coalesce', 60_000, fetch)));
+
+        expect(results).toEqual([['c'], ['c'], ['c']]);
+        expect(fetch.calls).toBe(1);
+    });
+
+    test('fresh lookups bypass the stored value but update it', async () => {
+        await cached('test:fresh', 60_000, counter('old'));
+        expect(await cached('test:fresh', 60_000, counter('new'), { fresh: true })).toBe('new');
+        expect(await cached('test:fresh', 60_000, counter('newer'))).toBe('new');
+    });
+
+    test('does not store values rejected by keep, or anything with a TTL of 0', async () => {
+        const empty = counter([] as string[]);
+        await cached('test:empty', 60_000, empty, { keep: r => r.length > 0 });
+        await cached('test:empty', 60_000, empty, { keep: r => r.length > 0 });
+        expect(empty.calls).toBe(2);
+
+        const disabled = counter('x');
+        await cached('test:off', 0, disabled);
+        await cached('test:off', 0, disabled);
+        expect(disabled.calls).toBe(2);
+    });
+
+    test('does not store failures', async () => {
+        let calls = 0;
+        const failing = async () => {
+            calls++;
+            throw new Error('site down');
+        };
+
+        await expect(cached('test:fail', 60_000, failing)).rejects.toThrow();
+        await expect(cached('test:fail', 60_000, failing)).rejects.toThrow();
+        expect(calls).toBe(2);
+    });
+});
+
+describe('cache admin', () => {
+    test('is written to disk', async () => {
+        await cached('test:disk', 60_000, counter('on disk'));
+        const saved = JSON.parse(await fs.readFile(path.join(config.dataDir, 'scrape-cache.json'), 'utf8'));
+        expect(saved['test:disk'].value).toBe('on disk');
+    });
+
+    test('counts entries per kind and flushes by prefix', async () => {
+        await cached('search:x:1:query', 60_000, counter(['r']));
+        await cached('links:x:https://a', 60_000, counter(['l']));
+
+        const stats = getCacheStats();
+        expect(stats.kinds.search).toBe(1);
+        expect(stats.kinds.links).toBe(1);
+
+        expect(await flushCache('search:')).toBe(1);
+        expect(getCacheStats().kinds.search).toBeUndefined();
+        expect(await flushCache()).toBeGreaterThan(0);
+        expect(getCacheStats().entries).toBe(0);
+    });
+});
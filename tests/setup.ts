@@ -0,0 +1,8 @@
+import { mkdtempSync, rmSync } from 'fs';
+import path from 'path';
+import { tmpdir } from 'os';
+
+// Keep sessions, caches and watchlists written by the tests out of the real data directory
+const dataDir = mkdtempSync(path.join(tmpdir(), 'bot-test-data-'));
+process.env.DATA_DIR = dataDir;
+process.on('exit', () => rmSync(dataDir, { recursive: true, force: true }));
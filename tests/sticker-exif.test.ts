@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { extractFirstFrame, isAnimatedWebp, readStickerMetadata, setStickerMetadata } from '../sticker-exif.js';
+
+function chunk(type: string, data: Buffer): Buffer {
+    const header = Buffer.alloc(8);
+    header.write(type, 0, 'ascii');
+    header.writeUInt32LE(data.length, 4);
+    return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+}
+
+function webp(...chunks: Buffer[]): Buffer {
+    const body = Buffer.concat(chunks);
+    const riff = Buffer.alloc(12);
+    riff.write('RIFF', 0, 'ascii');
+    riff.writeUInt32LE(body.length + 4, 4);
+    riff.write('WEBP', 8, 'ascii');
+    return Buffer.concat([riff, body]);
+}
+
+// A lossless 512x512 image with alpha; only the header bits matter here
+function vp8l(): Buffer {
+    const data = Buffer.alloc(15);
+    data[0] = 0x2f;
+    data.writeUInt32LE(511 | (511 << 14) | (1 << 28), 1);
+    return chunk('VP8L', data);
+}
+
+describe('setStickerMetadata', () => {
+    test('adds an extended header and EXIF to a simple WebP', () => {
+        const result = setStickerMetadata(webp(vp8l()), { pack: 'My Pack', author: 'Me' });
+
+        expect(result.toString('ascii', 12, 16)).toBe('VP8X');
+        expect(result[20]! & 0x18).toBe(0x18); // alpha + EXIF flags
+        expect(result.readUIntLE(24, 3) + 1).toBe(512);
+        expect(result.readUIntLE(27, 3) + 1).toBe(512);
+        expect(result.readUInt32LE(4)).toBe(result.length - 8);
+        expect(readStickerMetadata(result)).toEqual({ pack: 'My Pack', author: 'Me' });
+    });
+
+    test('replaces existing metadata on an extended (e.g. animated) WebP', () => {
+        const header = Buffer.alloc(10);
+        header[0] = 0x02; // animation
+        const animated = webp(chunk('VP8X', header), chunk('ANIM', Buffer.alloc(6)), chunk('ANMF', Buffer.alloc(17)));
+
+        const once = setStickerMetadata(animated, { pack: 'Old', author: 'A' });
+        const twice = setStickerMetadata(once, { pack: 'New', author: 'B' });
+
+        expect(twice[20]).toBe(0x0a);
+        expect(twice.toString('latin1').split('EXIF')).toHaveLength(2);
+        expect(readStickerMetadata(twice)).toEqual({ pack: 'New', author: 'B' });
+    });
+
+    test('rejects anything that is not a WebP', () => {
+        expect(() => setStickerMetadata(Buffer.from('GIF89a...'), { pack: 'x', author: 'y' })).toThrow();
+        expect(readStickerMetadata(webp(vp8l()))).toBeNull();
+    });
+});
+
+describe('animated stickers', () => {
+    // An ANMF frame: 16-byte header (offset 0,0, 64x48, 100ms) wrapping its own ALPH + VP8 chunks
+    function frame(): Buffer {
+        const header = Buffer.alloc(16);
+        header.writeUIntLE(63, 6, 3);
+        header.writeUIntLE(47, 9, 3);
+        header.writeUIntLE(100, 12, 3);
+        return chunk('ANMF', Buffer.concat([header, chunk('ALPH', Buffer.alloc(3)), chunk('VP8 ', Buffer.alloc(10))]));
+    }
+
+    const vp8x = Buffer.alloc(10);
+    vp8x[0] = 0x12; // animation + alpha
+    const animated = webp(chunk('VP8X', vp8x), chunk('ANIM', Buffer.alloc(6)), frame(), frame());
+
+    test('tells animated and still stickers apart', () => {
+        expect(isAnimatedWebp(animated)).toBe(true);
+        expect(isAnimatedWebp(webp(vp8l()))).toBe(false);
+    });
+
+    test('pulls the first frame out as a still WebP', () => {
+        const still = extractFirstFrame(animated)!;
+
+        expect(isAnimatedWebp(still)).toBe(false);
+        expect(still.toString('latin1').match(/VP8X|ALPH|VP8 |ANMF/g)).toEqual(['VP8X', 'ALPH', 'VP8 ']);
+        expect(still.readUIntLE(24, 3) + 1).toBe(64);
+        expect(still.readUIntLE(27, 3) + 1).toBe(48);
+        expect(extractFirstFrame(webp(vp8l()))).toBeNull();
+    });
+});
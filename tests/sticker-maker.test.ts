@@ -0,0 +1,22 @@
+import { describe, expect, test } from 'bun:test';
+import { stickerFilter } from '../sticker-maker.js';
+
+describe('stickerFilter', () => {
+    test('pads fitted images to the full canvas', () => {
+        expect(stickerFilter('fit')).toBe('scale=512:512:force_original_aspect_ratio=decrease,format=rgba,pad=512:512:(ow-iw)/2:(oh-ih)/2:color=#00000000');
+    });
+
+    test('crops shapes to a square and masks circles', () => {
+        const circle = stickerFilter('circle');
+        expect(circle).toContain('crop=512:512');
+        expect(circle).toContain("a='if(lte(hypot(X-W/2,Y-H/2),W/2),alpha(X,Y),0)'");
+        expect(circle).not.toContain('pad=');
+    });
+
+    test('centres smaller frames on the 512px canvas', () => {
+        const rounded = stickerFilter('rounded', 256);
+        expect(rounded).toContain('crop=256:256');
+        expect(rounded).toContain('hypot(max(abs(X-W/2)-(W/2-40),0)');
+        expect(rounded.endsWith('pad=512:512:(ow-iw)/2:(oh-ih)/2:color=#00000000')).toBe(true);
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import { existsSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { BUNDLED_FONT, estimateWidth, findBundledFont, layoutText } from '../sticker-text.js';
+
+const root = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+
+const box = { width: 480, height: 480, maxFontSize: 160, minFontSize: 28 };
+
+describe('layoutText', () => {
+    test('uses a big font for short text', () => {
+        const layout = layoutText('hi', box);
+
+        expect(layout.lines).toEqual(['hi']);
+        expect(layout.fontSize).toBe(160);
+    });
+
+    test('wraps longer text to fit the width, keeping words whole', () => {
+        const layout = layoutText('when the code works on the first try', box);
+
+        expect(layout.lines.length).toBeGreaterThan(1);
+        expect(layout.lines.join(' ')).toBe('when the code works on the first try');
+        layout.lines.forEach(line => expect(estimateWidth(line, layout.fontSize) <= box.width).toBe(true));
+    });
+
+    test('keeps line breaks the user typed', () => {
+        expect(layoutText('one\ntwo', box).lines).toEqual(['one', 'two']);
+    });
+
+    test('breaks and cuts text that cannot fit at the smallest size', () => {
+        const layout = layoutText('x'.repeat(2000), { ...box, height: 100 });
+
+        expect(layout.fontSize).toBe(28);
+        expect(layout.lines).toHaveLength(2);
+        expect(layout.lines[1]!.endsWith('…')).toBe(true);
+    });
+});
+
+describe('bundled font', () => {
+    test('is found where the text filters look for it', () => {
+        expect(existsSync(BUNDLED_FONT)).toBe(true);
+    });
+
+    test('is found from the Baileys build output too', () => {
+        expect(findBundledFont(path.join(root, 'Baileys', 'dist'))).toBe(BUNDLED_FONT);
+        expect(findBundledFont(path.join(root, 'Baileys', 'dist', 'Baileys', 'src'))).toBe(BUNDLED_FONT);
+    });
+});
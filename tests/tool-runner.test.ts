@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test';
+import { isToolAvailable, runTool, stderrTail, ytDlpError } from '../tool-runner.js';
+import type { ToolError } from '../tool-runner.js';
+
+// The tests drive the runner with node itself, which is always installed
+const node = process.execPath;
+
+async function failure(promise: Promise<unknown>): Promise<ToolError> {
+    try {
+        await promise;
+    } catch (error) {
+        return error as ToolError;
+    }
+    throw new Error('expected the run to fail');
+}
+
+describe('runTool', () => {
+    test('passes arguments through untouched, without a shell', async () => {
+        const tricky = ['a b', '"quoted"', "it's", '$(echo no)', '; rm -rf x', '*'];
+        const { stdout } = await runTool(node, ['-e', 'console.log(JSON.stringify(process.argv.slice(1)))', ...tricky]);
+
+        expect(JSON.parse(stdout)).toEqual(tricky);
+    });
+
+    test('rejects with the exit code and the end of stderr', async () => {
+        const error = await failure(runTool(node, ['-e', 'console.error("first\\nreal problem"); process.exit(3)']));
+
+        expect(error.exitCode).toBe(3);
+        expect(error.stderr).toContain('real problem');
+        expect(error.message).toContain('real problem');
+    });
+
+    test('kills the process on timeout', async () => {
+        const error = await failure(runTool(node, ['-e', 'setTimeout(() => {}, 10000)'], { timeoutMs: 200 }));
+
+        expect(error.timedOut).toBe(true);
+        expect(error.message).toContain('timed out');
+    });
+
+    test('kills the process when the signal aborts', async () => {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 100);
+        const error = await failure(runTool(node, ['-e', 'setTimeout(() => {}, 10000)'], { signal: controller.signal }));
+
+        expect(error.cancelled).toBe(true);
+    });
+
+    test('reports a missing binary and remembers it', async () => {
+        const error = await failure(runTool('no-such-tool-here', []));
+
+        expect(error.missing).toBe(true);
+        expect(error.message).toContain('not installed');
+        expect(isToolAvailable('no-such-tool-here')).toBe(false);
+    });
+});
+
+describe('stderr helpers', () => {
+    test('stderrTail keeps the last non-empty lines', () => {
+        expect(stderrTail('one\n\ntwo\nthree\nfour\n')).toBe('two | three | four');
+    });
+
+    test('ytDlpError pulls out the reason yt-dlp gave', () => {
+        const stderr = 'WARNING: something\nERROR: [youtube] abc123: Video unavailable. This video is private\n';
+        expect(ytDlpError({ stderr } as ToolError)).toBe('Video unavailable. This video is private');
+        expect(ytDlpError({ stderr: '' } as ToolError)).toBeUndefined();
+    });
+});
@@ -0,0 +1,107 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config.js';
+import { offerLinks } from '../commands/movies.js';
+import { registerProvider } from '../movie-providers.js';
+import { getSession, saveSession } from '../session-store.js';
+import type { Transport } from '../transport.js';
+import type { DownloadLink } from '../movie-providers.js';
+import * as watchlist from '../watchlist.js';
+
+// Signed file URLs change on every fetch, like the real hosts
+let episodes = 2;
+let fetches = 0;
+const episodeLinks = (): DownloadLink[] => Array.from({ length: episodes }, (_, i) => ({
+    label: `Download Episode ${i + 1}`,
+    url: `https://files.example/Show.S01E0${i + 1}.720p.mkv?token=${fetches}`,
+}));
+
+const show = { title: 'Show Season 1', url: 'https://shows.example/show-season-1/', provider: 'test' };
+const notified: { chatId: string; labels: string[] }[] = [];
+const onNewLinks = async (chatId: string, _entry: unknown, links: DownloadLink[]) => {
+    notified.push({ chatId, labels: links.map(l => l.label) });
+};
+
+beforeAll(() => {
+    registerProvider({
+        id: 'test',
+        name: 'Test',
+        search: async () => [],
+        getLinks: async () => {
+            fetches++;
+            return episodeLinks();
+        },
+        getDetails: async () => null,
+    });
+});
+
+describe('linkKey', () => {
+    test('ignores URL changes for the same episode and quality', () => {
+        const a = watchlist.linkKey({ label: 'Episode 1', url: 'https://x/Show.S01E01.720p.mkv?t=1' });
+        const b = watchlist.linkKey({ label: 'Download', url: 'https://y/Show.S01E01.720p.mkv?t=2' });
+        const c = watchlist.linkKey({ label: 'Episode 1', url: 'https://x/Show.S01E01.1080p.mkv' });
+
+        expect(a).toBe(b);
+        expect(a).not.toBe(c);
+    });
+});
+
+describe('watchlist', () => {
+    test('only reports links added after following', async () => {
+        expect(await watchlist.followTitle('chat-a', show, episodeLinks())).toBe(true);
+        expect(await watchlist.followTitle('chat-b', show, episodeLinks())).toBe(true);
+        expect(await watchlist.followTitle('chat-a', show, episodeLinks())).toBe(false);
+
+        await watchlist.checkWatchlist(onNewLinks);
+        expect(notified).toEqual([]);
+
+        episodes = 3;
+        await watchlist.checkWatchlist(onNewLinks);
+        expect(notified).toEqual([
+            { chatId: 'chat-a', labels: ['Download Episode 3'] },
+            { chatId: 'chat-b', labels: ['Download Episode 3'] },
+        ]);
+
+        notified.length = 0;
+        await watchlist.checkWatchlist(onNewLinks);
+        expect(notified).toEqual([]);
+    });
+
+    test('persists subscriptions and seen links', async () => {
+        const saved = JSON.parse(await fs.readFile(path.join(config.dataDir, 'watchlist.json'), 'utf8'));
+
+        expect(saved[show.url].followers).toEqual(['chat-a', 'chat-b']);
+        expect(saved[show.url].seen).toEqual(['s1e1:720p', 's1e2:720p', 's1e3:720p']);
+    });
+
+    test('drops a title once nobody follows it', async () => {
+        expect(await watchlist.unfollowTitle('chat-a', show.url)).toBe(true);
+        expect(watchlist.getFollowedTitles('chat-a')).toEqual([]);
+        expect(watchlist.getFollowedTitles('chat-b').map(t => t.title)).toEqual(['Show Season 1']);
+
+        await watchlist.unfollowTitle('chat-b', show.url);
+        expect(watchlist.getFollowedTitles('chat-b')).toEqual([]);
+    });
+});
+
+describe('new-episode notifications', () => {
+    const sent: string[] = [];
+    const transport = { sendText: async (_chatId: string, text: string) => { sent.push(text); } } as Transport;
+
+    test('open an episode menu in a chat that has none', async () => {
+        await offerLinks(transport, 'chat-idle', show, episodeLinks(), '🆕 New!');
+
+        expect(getSession('chat-idle', 'movies').status).toBe('active');
+        expect(sent.pop()).toContain('Reply with the *number*');
+    });
+
+    test('leave a menu the chat has open alone', async () => {
+        await saveSession('chat-busy', { flow: 'media-formats', state: 'FORMAT_SELECTION', timestamp: 0 });
+        await offerLinks(transport, 'chat-busy', show, episodeLinks(), '🆕 New!');
+
+        expect(getSession('chat-busy', 'media-formats').status).toBe('active');
+        expect(getSession('chat-busy', 'movies').status).toBe('missing');
+        expect(sent.pop()).toContain('You have another menu open');
+    });
+});
@@ -0,0 +1,223 @@
+import { spawn } from 'child_process';
+import path from 'path';
+
+export type Tool = 'ffmpeg' | 'ffprobe' | 'yt-dlp' | 'rembg';
+
+export interface ToolOptions {
+    /** Kill the process after this long (default 2 minutes) */
+    timeoutMs?: number;
+    /** Aborting kills the process */
+    signal?: AbortSignal;
+    /** Called with stderr as it arrives, e.g. for progress output */
+    onStderr?: (text: string) => void;
+}
+
+export interface ToolResult {
+    stdout: string;
+    stderr: string;
+    durationMs: number;
+}
+
+/** What a failed run rejects with */
+export interface ToolError extends Error {
+    tool: string;
+    exitCode: number | null;
+    /** The tail of stderr */
+    stderr: string;
+    timedOut: boolean;
+    cancelled: boolean;
+    /** The binary isn't installed */
+    missing: boolean;
+}
+
+const TOOLS: Tool[] = ['ffmpeg', 'ffprobe', 'yt-dlp', 'rembg'];
+const VERSION_ARGS: Record<Tool, string[]> = {
+    'ffmpeg': ['-version'],
+    'ffprobe': ['-version'],
+    'yt-dlp': ['--version'],
+    'rembg': ['--version'],
+};
+const INSTALL_HINTS: Record<string, string> = {
+    'ffmpeg': 'install ffmpeg',
+    'ffprobe': 'it comes with ffmpeg',
+    'yt-dlp': 'pip install yt-dlp',
+    'rembg': 'pip install "rembg[cli]"',
+};
+
+const DEFAULT_TIMEOUT_MS = 120000;
+const MAX_STDOUT_BYTES = 16 * 1024 * 1024;
+const MAX_STDERR_CHARS = 64 * 1024;
+
+// Filled in by probeTools(); a tool missing here fails fast instead of spawning
+const availability = new Map<string, boolean>();
+let probe: Promise<Record<Tool, boolean>> | undefined;
+
+function toolError(tool: string, message: string, details: Partial<ToolError> = {}): ToolError {
+    return Object.assign(new Error(message), {
+        tool,
+        exitCode: null,
+        stderr: '',
+        timedOut: false,
+        cancelled: false,
+        missing: false,
+        ...details
+    });
+}
+
+function missingError(tool: string): ToolError {
+    const hint = INSTALL_HINTS[tool];
+    return toolError(tool, `${tool} is not installed${hint ? ` (${hint})` : ''}`, { missing: true });
+}
+
+/**
+ * The last few non-empty lines of stderr, which is where tools put the actual error
+ */
+export function stderrTail(stderr: string, lines = 3): string {
+    return stderr.split('\n').map(l => l.trim()).filter(Boolean).slice(-lines).join(' | ');
+}
+
+/**
+ * Run a binary with an argument array (no shell, so nothing in a URL or file name is
+ * ever interpreted). Resolves with its output on exit code 0, rejects with a
+ * ToolError carrying the reason and the tail of stderr otherwise.
+ */
+export function runTool(tool: Tool | (string & {}), args: string[], options: ToolOptions = {}): Promise<ToolResult> {
+    if (availability.get(tool) === false) return Promise.reject(missingError(tool));
+    if (options.signal?.aborted) return Promise.reject(toolError(tool, `${tool} cancelled`, { cancelled: true }));
+
+    return new Promise((resolve, reject) => {
+        const started = Date.now();
+        const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const child = spawn(tool, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+        const stdout: Buffer[] = [];
+        let stdoutBytes = 0;
+        let stderr = '';
+        let timedOut = false;
+        let settled = false;
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            child.kill('SIGKILL');
+        }, timeoutMs);
+        const onAbort = () => child.kill('SIGKILL');
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        const settle = (error: ToolError | null) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+            if (error) {
+                reject(error);
+            } else {
+                resolve({ stdout: Buffer.concat(stdout).toString(), stderr, durationMs: Date.now() - started });
+            }
+        };
+
+        child.stdout.on('data', (chunk: Buffer) => {
+            stdoutBytes += chunk.length;
+            if (stdoutBytes <= MAX_STDOUT_BYTES) stdout.push(chunk);
+        });
+        child.stderr.on('data', (chunk: Buffer) => {
+            const text = chunk.toString();
+            stderr = (stderr + text).slice(-MAX_STDERR_CHARS);
+            options.onStderr?.(text);
+        });
+
+        child.on('error', (error: NodeJS.ErrnoException) => {
+            if (error.code === 'ENOENT') {
+                availability.set(tool, false);
+                settle(missingError(tool));
+            } else {
+                settle(toolError(tool, `${tool} failed to start: ${error.message}`));
+            }
+        });
+
+        child.on('close', (code) => {
+            if (code === 0) return settle(null);
+
+            const details = { exitCode: code, stderr, timedOut, cancelled: !!options.signal?.aborted };
+            if (details.cancelled) return settle(toolError(tool, `${tool} cancelled`, details));
+            if (timedOut) return settle(toolError(tool, `${tool} timed out after ${Math.round(timeoutMs / 1000)}s`, details));
+            settle(toolError(tool, `${tool} exited with code ${code}${stderr ? `: ${stderrTail(stderr)}` : ''}`, details));
+        });
+    });
+}
+
+/**
+ * Check once which tools are installed and log the result. Runs concurrently with
+ * startup; later calls share the first probe.
+ */
+export function probeTools(): Promise<Record<Tool, boolean>> {
+    probe ??= (async () => {
+        const results = await Promise.all(TOOLS.map(async (tool) => {
+            try {
+                await runTool(tool, VERSION_ARGS[tool], { timeoutMs: 30000 });
+                return true;
+            } catch (error: any) {
+                // Only a missing binary disables the tool; a slow or odd --version doesn't
+                return !error.missing;
+            }
+        }));
+
+        const found = Object.fromEntries(TOOLS.map((tool, i) => [tool, results[i]!])) as Record<Tool, boolean>;
+        TOOLS.forEach(tool => availability.set(tool, found[tool]));
+        console.log(`🔧 Tools: ${TOOLS.map(t => found[t] ? `${t} ✓` : `${t} ✗ (${INSTALL_HINTS[t]})`).join(', ')}`);
+        return found;
+    })();
+    return probe;
+}
+
+/**
+ * False once a tool is known to be missing (from the probe or a failed spawn)
+ */
+export function isToolAvailable(tool: string): boolean {
+    return availability.get(tool) !== false;
+}
+
+/**
+ * ffmpeg with quiet output that overwrites existing output files
+ */
+export function ffmpeg(args: string[], options: ToolOptions = {}): Promise<ToolResult> {
+    return runTool('ffmpeg', ['-hide_banner', '-v', 'error', '-y', ...args], options);
+}
+
+/**
+ * Duration of a media file in seconds (NaN when ffprobe can't tell)
+ */
+export async function ffprobeDuration(filePath: string, options: ToolOptions = {}): Promise<number> {
+    const { stdout } = await runTool('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=nw=1:nk=1', filePath], { timeoutMs: 30000, ...options });
+    return parseFloat(stdout.trim());
+}
+
+/**
+ * Width and height of an image or video's first video stream
+ */
+export async function ffprobeDimensions(filePath: string, options: ToolOptions = {}): Promise<{ width: number; height: number }> {
+    const { stdout } = await runTool('ffprobe', ['-v', 'error', '-select_streams', 'v:0', '-show_entries', 'stream=width,height', '-of', 'csv=p=0:s=x', filePath], { timeoutMs: 30000, ...options });
+    const [width, height] = stdout.trim().split('x').map(Number);
+    if (!width || !height) throw new Error(`ffprobe could not read the size of ${path.basename(filePath)}`);
+    return { width, height };
+}
+
+/**
+ * yt-dlp without warnings. The URL goes last, after "--", so it can't be read as an option.
+ */
+export function ytDlp(args: string[], url: string, options: ToolOptions = {}): Promise<ToolResult> {
+    return runTool('yt-dlp', ['--no-warnings', ...args, '--', url], { timeoutMs: 300000, ...options });
+}
+
+/**
+ * The "ERROR: ..." line yt-dlp prints when it gives up, if any
+ */
+export function ytDlpError(error: ToolError): string | undefined {
+    return /ERROR:\s*(?:\[[^\]]+\]\s*(?:[\w-]+:\s*)?)?(.+)/.exec(error.stderr || '')?.[1]?.trim();
+}
+
+/**
+ * rembg's one-shot image command: `rembg i [extra args] input output`
+ */
+export function rembgImage(inputPath: string, outputPath: string, extraArgs: string[] = [], options: ToolOptions = {}): Promise<ToolResult> {
+    return runTool('rembg', ['i', ...extraArgs, inputPath, outputPath], options);
+}
@@ -0,0 +1,53 @@
+/**
+ * Transport abstraction shared by the whatsapp-web.js and Baileys entry points.
+ * The bot core only ever talks to WhatsApp through these types, so every
+ * feature is written once and runs on either backend.
+ */
+
+export type MediaKind = 'image' | 'gif' | 'video' | 'audio' | 'sticker' | 'document';
+
+export interface IncomingMessage {
+    chatId: string;
+    senderId: string;
+    /** Message text or media caption, unmodified */
+    body: string;
+    mediaKind?: MediaKind;
+    hasQuoted: boolean;
+    /** The library's own message object, only meaningful to the adapter that created it */
+    raw: unknown;
+}
+
+export interface MediaFile {
+    data: Buffer;
+    mimetype: string;
+    fileName?: string;
+}
+
+export interface OutgoingMedia {
+    /** File contents, or a path on disk (preferred for large files) */
+    data: Buffer | string;
+    mimetype: string;
+    fileName?: string;
+    caption?: string;
+}
+
+export interface StickerMetadata {
+    pack: string;
+    author: string;
+}
+
+export interface SendOptions {
+    quoted?: IncomingMessage;
+}
+
+export interface Transport {
+    readonly name: string;
+    sendText(chatId: string, text: string, options?: SendOptions): Promise<void>;
+    /** Send as image, video or audio depending on the mimetype */
+    sendMedia(chatId: string, media: OutgoingMedia, options?: SendOptions): Promise<void>;
+    /** Pack and author end up in the sticker's WebP EXIF, where WhatsApp shows them from */
+    sendSticker(chatId: string, webp: Buffer, metadata?: StickerMetadata): Promise<void>;
+    sendDocument(chatId: string, media: OutgoingMedia, options?: SendOptions): Promise<void>;
+    downloadMedia(message: IncomingMessage): Promise<MediaFile>;
+    getQuotedMessage(message: IncomingMessage): Promise<IncomingMessage | null>;
+}
@@ -0,0 +1,35 @@
+import { openJsonFile } from './json-file.js';
+
+/**
+ * Settings a user has chosen once and wants reused, keyed by sender ID
+ */
+export interface UserPrefs {
+    /** Pack name written into their stickers */
+    stickerPack?: string;
+    /** Author written into their stickers */
+    stickerAuthor?: string;
+    /** Highest video resolution for pasted links, set by picking one in the `formats` menu */
+    mediaQuality?: number;
+}
+
+const store = openJsonFile<Record<string, UserPrefs>>('user-prefs.json', {});
+
+export function getUserPrefs(userId: string): UserPrefs {
+    return store.data[userId] || {};
+}
+
+/**
+ * Merge changes into a user's preferences. Fields set to undefined are removed.
+ */
+export async function updateUserPrefs(userId: string, changes: Partial<UserPrefs>): Promise<UserPrefs> {
+    const prefs: Record<string, unknown> = { ...store.data[userId], ...changes };
+    Object.keys(prefs).forEach(key => prefs[key] === undefined && delete prefs[key]);
+
+    if (Object.keys(prefs).length > 0) {
+        store.data[userId] = prefs as UserPrefs;
+    } else {
+        delete store.data[userId];
+    }
+    await store.save();
+    return getUserPrefs(userId);
+}
@@ -0,0 +1,127 @@
+import { config } from './config.js';
+import { openJsonFile } from './json-file.js';
+import { parseLink } from './episode-parser.js';
+import { getMovieLinks } from './movie-providers.js';
+import type { DownloadLink, MovieSearchResult } from './movie-providers.js';
+
+export interface FollowedTitle {
+    title: string;
+    url: string;
+    provider?: string;
+    /** Chats to tell about new links */
+    followers: string[];
+    /** Keys of every link seen so far (see linkKey) */
+    seen: string[];
+    lastChecked: number;
+}
+
+/** Called once per follower with the links that appeared since the last check */
+export type NewLinksHandler = (chatId: string, entry: FollowedTitle, links: DownloadLink[]) => Promise<void>;
+
+const store = openJsonFile<Record<string, FollowedTitle>>('watchlist.json', {});
+let timer: ReturnType<typeof setInterval> | undefined;
+let checking = false;
+
+/**
+ * What makes a link "the same" between checks. Resolved file URLs are signed and
+ * change every time, so episodes are compared by season/episode/quality instead.
+ */
+export function linkKey(link: DownloadLink): string {
+    const parsed = parseLink(link);
+    if (parsed.episode === undefined) return parsed.label.toLowerCase().trim();
+    return `s${parsed.season ?? 0}e${parsed.episode}${parsed.quality ? `:${parsed.quality}` : ''}`;
+}
+
+/**
+ * Follow a title for a chat. `currentLinks` are what the title has now, so only
+ * links added after this count as new. Returns false if the chat already follows it.
+ */
+export async function followTitle(chatId: string, movie: MovieSearchResult, currentLinks: DownloadLink[]): Promise<boolean> {
+    const entry = store.data[movie.url];
+    if (entry?.followers.includes(chatId)) return false;
+
+    if (entry) {
+        entry.followers.push(chatId);
+    } else {
+        store.data[movie.url] = {
+            title: movie.title,
+            url: movie.url,
+            provider: movie.provider,
+            followers: [chatId],
+            seen: [...new Set(currentLinks.map(linkKey))],
+            lastChecked: Date.now()
+        };
+    }
+    await store.save();
+    return true;
+}
+
+/**
+ * Stop following a title. The title is dropped entirely once nobody follows it.
+ */
+export async function unfollowTitle(chatId: string, url: string): Promise<boolean> {
+    const entry = store.data[url];
+    if (!entry?.followers.includes(chatId)) return false;
+
+    entry.followers = entry.followers.filter(f => f !== chatId);
+    if (entry.followers.length === 0) delete store.data[url];
+    await store.save();
+    return true;
+}
+
+export function getFollowedTitles(chatId: string): FollowedTitle[] {
+    return Object.values(store.data)
+        .filter(entry => entry.followers.includes(chatId))
+        .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Fetch every followed title's links once and report the ones not seen before.
+ * Titles are checked one after another to go easy on the sites.
+ */
+export async function checkWatchlist(onNewLinks: NewLinksHandler): Promise<void> {
+    if (checking) return;
+    checking = true;
+    try {
+        for (const entry of Object.values(store.data)) {
+            let links: DownloadLink[];
+            try {
+                links = await getMovieLinks(entry, { fresh: true });
+            } catch (error: any) {
+                console.error(`Watchlist check failed for ${entry.title}:`, error.message);
+                continue;
+            }
+
+            const seen = new Set(entry.seen);
+            const fresh = links.filter(link => !link.unresolved && !seen.has(linkKey(link)));
+            entry.lastChecked = Date.now();
+
+            if (fresh.length > 0) {
+                console.log(`Watchlist: ${fresh.length} new link(s) for ${entry.title}`);
+                for (const chatId of entry.followers) {
+                    try {
+                        await onNewLinks(chatId, entry, fresh);
+                    } catch (error: any) {
+                        console.error(`Could not tell ${chatId} about ${entry.title}:`, error.message);
+                    }
+                }
+                fresh.forEach(link => seen.add(linkKey(link)));
+                entry.seen = [...seen];
+            }
+            await store.save();
+        }
+    } finally {
+        checking = false;
+    }
+}
+
+/**
+ * Check followed titles every WATCHLIST_INTERVAL_MINUTES. Safe to call more than once.
+ */
+export function startWatchlist(onNewLinks: NewLinksHandler): void {
+    if (timer || config.watchlistIntervalMs <= 0) return;
+    timer = setInterval(() => {
+        checkWatchlist(onNewLinks).catch(error => console.error('Watchlist check failed:', error));
+    }, config.watchlistIntervalMs);
+    timer.unref();
+}
@@ -0,0 +1,100 @@
+import { MessageMedia } from 'whatsapp-web.js';
+import type { Client, Message, MessageSendOptions } from 'whatsapp-web.js';
+import type { IncomingMessage, MediaKind, OutgoingMedia, SendOptions, Transport } from './transport.js';
+
+/**
+ * Map a whatsapp-web.js message type onto the shared media kinds
+ */
+function getMediaKind(msg: Message): MediaKind | undefined {
+    if (!msg.hasMedia) return undefined;
+    switch (msg.type) {
+        case 'image': return 'image';
+        case 'video': return msg.isGif ? 'gif' : 'video';
+        case 'audio':
+        case 'ptt': return 'audio';
+        case 'sticker': return 'sticker';
+        case 'document': return 'document';
+        default: return undefined;
+    }
+}
+
+/**
+ * Wrap a whatsapp-web.js message for the bot core
+ */
+export function toIncomingMessage(msg: Message): IncomingMessage {
+    return {
+        chatId: msg.from,
+        senderId: msg.author || msg.from,
+        body: msg.body || '',
+        mediaKind: getMediaKind(msg),
+        hasQuoted: msg.hasQuotedMsg,
+        raw: msg
+    };
+}
+
+function toMessageMedia(media: OutgoingMedia): MessageMedia {
+    const messageMedia = typeof media.data === 'string'
+        ? MessageMedia.fromFilePath(media.data)
+        : new MessageMedia(media.mimetype, media.data.toString('base64'));
+    messageMedia.mimetype = media.mimetype;
+    if (media.fileName) messageMedia.filename = media.fileName;
+    return messageMedia;
+}
+
+function quoteOptions(options?: SendOptions): MessageSendOptions {
+    const quoted = options?.quoted?.raw as Message | undefined;
+    return quoted ? { quotedMessageId: quoted.id._serialized } : {};
+}
+
+/**
+ * Transport adapter for whatsapp-web.js
+ */
+export function createWhatsAppWebTransport(client: Client): Transport {
+    return {
+        name: 'whatsapp-web.js',
+
+        async sendText(chatId, text, options) {
+            await client.sendMessage(chatId, text, quoteOptions(options));
+        },
+
+        async sendMedia(chatId, media, options) {
+            await client.sendMessage(chatId, toMessageMedia(media), {
+                ...quoteOptions(options),
+                caption: media.caption
+            });
+        },
+
+        async sendSticker(chatId, webp, metadata) {
+            const stickerMedia = new MessageMedia('image/webp', webp.toString('base64'), 'sticker.webp');
+            await client.sendMessage(chatId, stickerMedia, {
+                sendMediaAsSticker: true,
+                stickerName: metadata?.pack,
+                stickerAuthor: metadata?.author
+            });
+        },
+
+        async sendDocument(chatId, media, options) {
+            await client.sendMessage(chatId, toMessageMedia(media), {
+                ...quoteOptions(options),
+                sendMediaAsDocument: true,
+                caption: media.caption
+            });
+        },
+
+        async downloadMedia(message) {
+            const media = await (message.raw as Message).downloadMedia();
+            if (!media) throw new Error('Media is no longer available');
+            return {
+                data: Buffer.from(media.data, 'base64'),
+                mimetype: media.mimetype,
+                fileName: media.filename || undefined
+            };
+        },
+
+        async getQuotedMessage(message) {
+            if (!message.hasQuoted) return null;
+            const quoted = await (message.raw as Message).getQuotedMessage();
+            return quoted ? toIncomingMessage(quoted) : null;
+        }
+    };
+}